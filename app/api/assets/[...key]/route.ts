@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { db } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-utils';
+import { getStorage } from '@/lib/storage';
+import { getAssetOrganizationId, verifyAssetSignature } from '@/lib/asset-urls';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+// Decode the route segments into an object key. Checks run on the decoded
+// segments, since an encoded `%2e%2e` or `%2f` only becomes a traversal once
+// decoded; the key must also come back unchanged from normalization.
+function toAssetKey(segments: string[]): string | null {
+  let decoded: string[];
+  try {
+    decoded = segments.map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+
+  if (decoded.some(segment => !segment || segment === '.' || segment === '..' || /[/\\]/.test(segment))) {
+    return null;
+  }
+
+  const key = decoded.join('/');
+  return path.posix.normalize(key) === key ? key : null;
+}
+
+// Serve a private original or staged image. Access is granted either by a
+// valid signature in the query string or by the viewer's membership in the
+// organization that owns the object.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key: segments } = await params;
+    const key = toAssetKey(segments);
+    const organizationId = key ? getAssetOrganizationId(key) : null;
+
+    if (!key || !organizationId) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const hasValidSignature = verifyAssetSignature(
+      key,
+      searchParams.get('expires'),
+      searchParams.get('signature')
+    );
+
+    if (!hasValidSignature) {
+      const user = await getCurrentUser();
+      if (!user) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+
+      const membership = await db.organizationMember.findUnique({
+        where: {
+          organizationId_userId: {
+            organizationId,
+            userId: user.id,
+          },
+        },
+      });
+
+      if (!membership) {
+        return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+      }
+    }
+
+    let body: Buffer;
+    try {
+      body = await getStorage().get(key);
+    } catch {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream',
+        'Content-Length': body.length.toString(),
+        'Cache-Control': hasValidSignature ? 'private, max-age=3600' : 'private, no-cache',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to serve asset:', error);
+    return NextResponse.json(
+      { error: 'Failed to serve asset' },
+      { status: 500 }
+    );
+  }
+}
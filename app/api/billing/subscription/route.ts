@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { getEffectivePlan, getSubscriptionPlan } from '@/lib/pricing';
+import { cancelSubscription, changeSubscriptionPlan, createSubscriptionCheckout } from '@/lib/subscriptions';
+
+const subscriptionSchema = z.object({
+  planId: z.enum(['agency', 'enterprise']),
+});
+
+// Subscribe to a paid plan, or switch an existing subscription to another one
+export async function POST(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('billing:manage');
+    const body = await request.json();
+    const { planId } = subscriptionSchema.parse(body);
+
+    const organization = userWithOrg.organization;
+    const plan = getSubscriptionPlan(planId)!;
+
+    if (organization.stripeSubscriptionId) {
+      if (getEffectivePlan(organization).id === plan.id) {
+        return NextResponse.json(
+          { error: `Already subscribed to the ${plan.name} plan` },
+          { status: 400 }
+        );
+      }
+
+      await changeSubscriptionPlan(organization.stripeSubscriptionId, plan);
+      return NextResponse.json({ success: true, planId: plan.id });
+    }
+
+    const checkoutUrl = await createSubscriptionCheckout({
+      organizationId: organization.id,
+      email: userWithOrg.user.email,
+      name: userWithOrg.user.name || undefined,
+      plan,
+      returnUrl: `${request.nextUrl.origin}/dashboard/billing`,
+    });
+
+    return NextResponse.json({ success: true, checkoutUrl });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Subscription update failed:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel at the end of the current billing period
+export async function DELETE() {
+  try {
+    const userWithOrg = await requirePermission('billing:manage');
+    const subscriptionId = userWithOrg.organization.stripeSubscriptionId;
+
+    if (!subscriptionId) {
+      return NextResponse.json(
+        { error: 'No active subscription' },
+        { status: 400 }
+      );
+    }
+
+    await cancelSubscription(subscriptionId);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Subscription cancellation failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth-utils';
+import { PlanLimitError } from '@/lib/plan-limits';
+import { acceptInvitation, declineInvitation, InvitationError } from '@/lib/invitations';
+
+const respondSchema = z.object({
+  action: z.enum(['accept', 'decline']),
+});
+
+// Answer an invitation. Accepting needs the invited account to be signed in;
+// declining only needs the token from the email.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const body = await request.json();
+    const { action } = respondSchema.parse(body);
+
+    if (action === 'decline') {
+      await declineInvitation(token);
+      return NextResponse.json({ success: true, status: 'declined' });
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in to accept this invitation' },
+        { status: 401 }
+      );
+    }
+
+    const organization = await acceptInvitation(token, user);
+    return NextResponse.json({ success: true, status: 'accepted', organization });
+
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof PlanLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit },
+        { status: 403 }
+      );
+    }
+
+    console.error('Failed to respond to invitation:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to respond to invitation' },
+      { status: 500 }
+    );
+  }
+}
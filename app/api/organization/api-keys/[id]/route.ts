@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { revokeApiKey } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+
+// Revoke an API key; requests using it are rejected from then on
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('api_keys:manage');
+    const { id } = await params;
+
+    const revoked = await revokeApiKey(userWithOrg.organization.id, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to revoke API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { createApiKey, listApiKeys } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Key name is required').max(100, 'Key name is too long'),
+  scopes: z
+    .array(z.enum(['projects:read', 'projects:write', 'images:write', 'staging:run']))
+    .min(1, 'Select at least one scope'),
+});
+
+export async function GET() {
+  try {
+    const userWithOrg = await requirePermission('api_keys:manage');
+    const apiKeys = await listApiKeys(userWithOrg.organization.id);
+
+    return NextResponse.json({ apiKeys });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to list API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// The plain key is only in this response; it can't be shown again
+export async function POST(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('api_keys:manage');
+    const body = await request.json();
+    const { name, scopes } = createApiKeySchema.parse(body);
+
+    const { apiKey, key } = await createApiKey({
+      organizationId: userWithOrg.organization.id,
+      name,
+      scopes: Array.from(new Set(scopes)),
+      createdBy: userWithOrg.user.id,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        key,
+        apiKey: {
+          id: apiKey.id,
+          name: apiKey.name,
+          keyPrefix: apiKey.keyPrefix,
+          scopes: apiKey.scopes,
+          createdAt: apiKey.createdAt,
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to create API key:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+
+// Revoke a pending invitation so its link stops working
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('members:invite');
+    const { id } = await params;
+
+    const revoked = await db.invitation.updateMany({
+      where: {
+        id,
+        organizationId: userWithOrg.organization.id,
+        status: 'pending',
+      },
+      data: { status: 'revoked', respondedAt: new Date() },
+    });
+
+    if (revoked.count === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to revoke invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
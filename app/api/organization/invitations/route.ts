@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { PlanLimitError } from '@/lib/plan-limits';
+import { createInvitation, InvitationError } from '@/lib/invitations';
+
+const createInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['admin', 'member']).default('member'),
+});
+
+export async function GET() {
+  try {
+    const userWithOrg = await requirePermission('members:invite');
+
+    const invitations = await db.invitation.findMany({
+      where: {
+        organizationId: userWithOrg.organization.id,
+        status: 'pending',
+        expiresAt: { gt: new Date() },
+      },
+      include: { inviter: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      invitations: invitations.map(invitation => ({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        invitedBy: invitation.inviter?.name || invitation.inviter?.email || null,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+      })),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to list invitations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('members:invite');
+    const body = await request.json();
+    const { email, role } = createInvitationSchema.parse(body);
+
+    // Only owners can bring in other admins
+    if (role === 'admin' && userWithOrg.role !== 'owner') {
+      throw new PermissionError('members:update_role');
+    }
+
+    const invitation = await createInvitation({
+      organizationId: userWithOrg.organization.id,
+      email,
+      role,
+      invitedBy: userWithOrg.user.id,
+      baseUrl: request.nextUrl.origin,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        invitation: {
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof PlanLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Failed to create invitation:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
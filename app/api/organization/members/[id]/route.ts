@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { requireAuthWithOrg, requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { assertPermission, canManageMember, PermissionError } from '@/lib/permissions';
+
+const updateRoleSchema = z.object({
+  role: z.enum(['owner', 'admin', 'member']),
+});
+
+async function countOwners(organizationId: string) {
+  return db.organizationMember.count({ where: { organizationId, role: 'owner' } });
+}
+
+// Change a member's role. Owners only; an organization always keeps at least one owner.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('members:update_role');
+    const { id } = await params;
+    const body = await request.json();
+    const { role } = updateRoleSchema.parse(body);
+
+    const member = await db.organizationMember.findFirst({
+      where: { id, organizationId: userWithOrg.organization.id },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    if (member.role === 'owner' && role !== 'owner' && await countOwners(member.organizationId) <= 1) {
+      return NextResponse.json(
+        { error: 'An organization needs at least one owner' },
+        { status: 400 }
+      );
+    }
+
+    const updatedMember = await db.organizationMember.update({
+      where: { id },
+      data: { role },
+    });
+
+    return NextResponse.json({
+      success: true,
+      member: { id: updatedMember.id, role: updatedMember.role },
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to update member role:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update member role' },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a member, or leave the organization when removing yourself
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requireAuthWithOrg();
+    const { id } = await params;
+
+    const member = await db.organizationMember.findFirst({
+      where: { id, organizationId: userWithOrg.organization.id },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    if (member.userId !== userWithOrg.user.id) {
+      assertPermission(userWithOrg.role, 'members:remove');
+      if (!canManageMember(userWithOrg.role, member.role)) {
+        throw new PermissionError('members:remove');
+      }
+    }
+
+    if (member.role === 'owner' && await countOwners(member.organizationId) <= 1) {
+      return NextResponse.json(
+        { error: 'An organization needs at least one owner' },
+        { status: 400 }
+      );
+    }
+
+    await db.organizationMember.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to remove member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireAuthWithOrg } from '@/lib/auth-utils';
+
+export async function GET() {
+  try {
+    const userWithOrg = await requireAuthWithOrg();
+
+    const members = await db.organizationMember.findMany({
+      where: { organizationId: userWithOrg.organization.id },
+      include: { user: { select: { id: true, name: true, email: true, image: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      members: members.map(member => ({
+        id: member.id,
+        role: member.role,
+        joinedAt: member.createdAt,
+        user: member.user,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Failed to list members:', error);
+    return NextResponse.json(
+      { error: 'Failed to list members' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { validateFile } from '@/lib/local-storage';
+import { getSignedAssetUrl, getStorage, saveUploadedFile } from '@/lib/storage';
+
+// Logos are shrunk on upload; the label never draws them larger than this
+const MAX_LOGO_SIZE = 600;
+
+// Nothing else references an old logo, so it is removed once replaced
+async function deletePreviousLogo(key: string | null) {
+  if (!key) return;
+  try {
+    await getStorage().delete(key);
+  } catch (error) {
+    console.error(`Failed to delete ${key}:`, error);
+  }
+}
+
+// Upload the logo shown next to the disclosure text. It is stored as a PNG
+// with the organization in place of a project.
+export async function PUT(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('branding:manage');
+
+    const formData = await request.formData();
+    const file = formData.get('logo');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No logo provided' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    let logo: Buffer;
+    try {
+      logo = await sharp(Buffer.from(await file.arrayBuffer()))
+        .rotate()
+        .resize(MAX_LOGO_SIZE, MAX_LOGO_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer();
+    } catch (logoError) {
+      console.error('Failed to read logo image:', logoError);
+      return NextResponse.json(
+        { error: 'Logo must be a valid image' },
+        { status: 400 }
+      );
+    }
+
+    const saveResult = await saveUploadedFile(
+      logo,
+      `logo_${Date.now()}.png`,
+      'image/png',
+      userWithOrg.organization.id,
+      'organization',
+      'logo'
+    );
+    if (!saveResult.success || !saveResult.file) {
+      throw new Error(saveResult.error || 'Failed to save logo');
+    }
+
+    await db.organization.update({
+      where: { id: userWithOrg.organization.id },
+      data: { watermarkLogoKey: saveResult.file.key },
+    });
+    await deletePreviousLogo(userWithOrg.organization.watermarkLogoKey);
+
+    return NextResponse.json({
+      success: true,
+      logoUrl: await getSignedAssetUrl(saveResult.file.key),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to save watermark logo:', error);
+    return NextResponse.json(
+      { error: 'Failed to save watermark logo' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const userWithOrg = await requirePermission('branding:manage');
+
+    await db.organization.update({
+      where: { id: userWithOrg.organization.id },
+      data: { watermarkLogoKey: null },
+    });
+    await deletePreviousLogo(userWithOrg.organization.watermarkLogoKey);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to remove watermark logo:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove watermark logo' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { WATERMARK_POSITIONS, getWatermarkSettings, serializeWatermarkSettings } from '@/lib/watermark';
+
+const updateWatermarkSchema = z.object({
+  enabled: z.boolean().optional(),
+  text: z.string().trim().min(1, 'Disclosure text is required').max(80).optional(),
+  position: z.enum(WATERMARK_POSITIONS).optional(),
+  opacity: z.number().min(0.1).max(1).optional(),
+  badge: z.boolean().optional(),
+});
+
+// Disclosure label stamped on downloaded staged images
+export async function GET() {
+  try {
+    const userWithOrg = await requirePermission('staging:read');
+
+    return NextResponse.json({
+      watermark: await serializeWatermarkSettings(getWatermarkSettings(userWithOrg.organization)),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to read watermark settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to read watermark settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('branding:manage');
+    const body = await request.json();
+    const input = updateWatermarkSchema.parse(body);
+
+    const organization = await db.organization.update({
+      where: { id: userWithOrg.organization.id },
+      data: {
+        watermarkEnabled: input.enabled,
+        watermarkText: input.text,
+        watermarkPosition: input.position,
+        watermarkOpacity: input.opacity,
+        watermarkBadge: input.badge,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      watermark: await serializeWatermarkSettings(getWatermarkSettings(organization)),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to update watermark settings:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update watermark settings' },
+      { status: 500 }
+    );
+  }
+}
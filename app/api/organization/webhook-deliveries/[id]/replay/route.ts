@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { replayWebhookDelivery } from '@/lib/webhooks';
+
+// Queue the delivery's event to be sent again; the worker picks it up
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('webhooks:manage');
+    const { id } = await params;
+
+    const delivery = await replayWebhookDelivery(userWithOrg.organization.id, id);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deliveryId: delivery.id }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to replay webhook delivery:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay webhook delivery' },
+      { status: 500 }
+    );
+  }
+}
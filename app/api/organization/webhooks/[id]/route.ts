@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { WEBHOOK_EVENTS } from '@/lib/webhooks';
+
+const updateWebhookSchema = z.object({
+  enabled: z.boolean().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event').optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('webhooks:manage');
+    const { id } = await params;
+    const body = await request.json();
+    const { enabled, events } = updateWebhookSchema.parse(body);
+
+    const updated = await db.webhookEndpoint.updateMany({
+      where: { id, organizationId: userWithOrg.organization.id },
+      data: {
+        enabled,
+        events: events ? Array.from(new Set(events)) : undefined,
+      },
+    });
+
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to update webhook endpoint:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting an endpoint also drops its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('webhooks:manage');
+    const { id } = await params;
+
+    const deleted = await db.webhookEndpoint.deleteMany({
+      where: { id, organizationId: userWithOrg.organization.id },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to delete webhook endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { WEBHOOK_EVENTS, generateWebhookSecret } from '@/lib/webhooks';
+import { WebhookUrlError, resolveWebhookTarget } from '@/lib/webhook-targets';
+
+const createWebhookSchema = z.object({
+  url: z.string().url().refine(url => url.startsWith('https://'), 'Webhook URLs must use https'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+});
+
+export async function GET() {
+  try {
+    const userWithOrg = await requirePermission('webhooks:manage');
+
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { organizationId: userWithOrg.organization.id },
+      select: { id: true, url: true, events: true, enabled: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ endpoints });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to list webhook endpoints:', error);
+    return NextResponse.json(
+      { error: 'Failed to list webhook endpoints' },
+      { status: 500 }
+    );
+  }
+}
+
+// The signing secret is only in this response; it can't be shown again
+export async function POST(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('webhooks:manage');
+    const body = await request.json();
+    const { url, events } = createWebhookSchema.parse(body);
+
+    // Refuse hosts that resolve to internal addresses; delivery checks again
+    await resolveWebhookTarget(url);
+
+    const endpoint = await db.webhookEndpoint.create({
+      data: {
+        organizationId: userWithOrg.organization.id,
+        url,
+        events: Array.from(new Set(events)),
+        secret: generateWebhookSecret(),
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        secret: endpoint.secret,
+        endpoint: {
+          id: endpoint.id,
+          url: endpoint.url,
+          events: endpoint.events,
+          enabled: endpoint.enabled,
+          createdAt: endpoint.createdAt,
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof WebhookUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Failed to create webhook endpoint:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
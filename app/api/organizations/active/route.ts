@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-utils';
+import { ACTIVE_ORGANIZATION_COOKIE, ACTIVE_ORGANIZATION_COOKIE_OPTIONS } from '@/lib/organizations';
+
+const switchOrganizationSchema = z.object({
+  organizationId: z.string().min(1),
+});
+
+// Switch the organization that requests resolve against
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { organizationId } = switchOrganizationSchema.parse(body);
+
+    const membership = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+      include: { organization: { select: { id: true, name: true } } },
+    });
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      organization: membership.organization,
+      role: membership.role,
+    });
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organizationId, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    return response;
+
+  } catch (error) {
+    console.error('Organization switch failed:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to switch organization' },
+      { status: 500 }
+    );
+  }
+}
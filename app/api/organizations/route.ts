@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUserWithOrg, requireAuth } from '@/lib/auth-utils';
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  createOrganization,
+  getUserOrganizations,
+} from '@/lib/organizations';
+
+const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1, 'Organization name is required').max(100, 'Organization name is too long'),
+});
+
+// Organizations the current user belongs to, flagging the active one
+export async function GET() {
+  try {
+    const userWithOrg = await getCurrentUserWithOrg();
+    if (!userWithOrg) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const organizations = await getUserOrganizations(userWithOrg.user.id);
+
+    return NextResponse.json({
+      organizations: organizations.map(organization => ({
+        ...organization,
+        isActive: organization.id === userWithOrg.organization?.id,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Failed to list organizations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list organizations' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create an organization owned by the current user and switch to it
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+    const { name } = createOrganizationSchema.parse(body);
+
+    const organization = await createOrganization({ name, ownerId: user.id });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        organization: {
+          id: organization.id,
+          name: organization.name,
+          slug: organization.slug,
+        },
+      },
+      { status: 201 }
+    );
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organization.id, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    return response;
+
+  } catch (error) {
+    console.error('Organization creation failed:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create organization' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,9 @@ import { z } from 'zod';
 import { stripe } from '@/lib/stripe';
 import { getCreditPackage, priceToStripeAmount } from '@/lib/pricing';
 import { getOrCreateStripeCustomer } from '@/lib/stripe-customer';
-import { requireAuthWithOrg } from '@/lib/auth-utils';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
 
 const createPaymentIntentSchema = z.object({
   packageId: z.string(),
@@ -11,7 +13,7 @@ const createPaymentIntentSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('billing:manage');
     const body = await request.json();
     const { packageId } = createPaymentIntentSchema.parse(body);
 
@@ -54,6 +56,14 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     console.error('Payment intent creation failed:', error);
     
     if (error instanceof z.ZodError) {
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
-import { requireAuthWithOrg } from '@/lib/auth-utils';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { releaseCredits } from '@/lib/credits';
+import { deleteProjectFiles, getSignedAssetUrl } from '@/lib/storage';
+import { PROJECT_WATERMARK_MODES } from '@/lib/watermark';
 
 const updateProjectSchema = z.object({
   name: z.string().min(1, 'Project name is required').max(255, 'Project name is too long').optional(),
@@ -10,6 +15,7 @@ const updateProjectSchema = z.object({
   propertyType: z.enum(['house', 'condo', 'commercial']).optional(),
   status: z.enum(['active', 'archived', 'completed']).optional(),
   description: z.string().max(1000, 'Description is too long').optional(),
+  watermark: z.enum(PROJECT_WATERMARK_MODES).optional(), // inherit, on, off
 });
 
 export async function GET(
@@ -17,7 +23,7 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('projects:read');
     const projectId = params.id;
 
     const project = await db.project.findFirst({
@@ -44,11 +50,11 @@ export async function GET(
       );
     }
 
-    // Format room images
-    const roomImages = project.roomImages.map(image => ({
+    // Format room images with short-lived signed URLs
+    const roomImages = await Promise.all(project.roomImages.map(async image => ({
       id: image.id,
       filename: image.filename,
-      url: image.s3Url,
+      url: await getSignedAssetUrl(image.s3Key),
       roomType: image.roomType,
       width: image.width,
       height: image.height,
@@ -56,7 +62,7 @@ export async function GET(
       mimeType: image.mimeType,
       uploadStatus: image.uploadStatus,
       createdAt: image.createdAt,
-    }));
+    })));
 
     return NextResponse.json({
       success: true,
@@ -67,6 +73,7 @@ export async function GET(
         mlsNumber: project.mlsNumber,
         propertyType: project.propertyType,
         status: project.status,
+        watermark: project.watermark,
         createdAt: project.createdAt,
         updatedAt: project.updatedAt,
         roomCount: project._count.roomImages,
@@ -75,6 +82,14 @@ export async function GET(
     });
 
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     console.error('Failed to fetch project:', error);
     return NextResponse.json(
       { error: 'Failed to fetch project' },
@@ -88,7 +103,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('projects:update');
     const projectId = params.id;
     const body = await request.json();
     const validatedData = updateProjectSchema.parse(body);
@@ -130,6 +145,7 @@ export async function PUT(
         mlsNumber: updatedProject.mlsNumber,
         propertyType: updatedProject.propertyType,
         status: updatedProject.status,
+        watermark: updatedProject.watermark,
         createdAt: updatedProject.createdAt,
         updatedAt: updatedProject.updatedAt,
         roomCount: updatedProject._count.roomImages,
@@ -137,6 +153,14 @@ export async function PUT(
     });
 
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     console.error('Failed to update project:', error);
     
     if (error instanceof z.ZodError) {
@@ -158,7 +182,7 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('projects:delete');
     const projectId = params.id;
 
     // Check if project exists and belongs to user's organization
@@ -167,9 +191,6 @@ export async function DELETE(
         id: projectId,
         organizationId: userWithOrg.organization.id,
       },
-      include: {
-        roomImages: true,
-      },
     });
 
     if (!existingProject) {
@@ -179,20 +200,44 @@ export async function DELETE(
       );
     }
 
-    // TODO: Delete associated files from storage when implementing
-    // For now, we rely on CASCADE delete in the database
-
-    // Delete project (this will cascade delete room images)
-    await db.project.delete({
-      where: { id: projectId },
+    // Deleting the project cascades to its room images and staging jobs, so
+    // jobs still holding a reservation hand their credits back first
+    await db.$transaction(async (tx) => {
+      const reservedJobs = await tx.stagingJob.findMany({
+        where: { roomImage: { projectId }, creditStatus: 'reserved' },
+        select: { id: true },
+      });
+      for (const job of reservedJobs) {
+        await releaseCredits(tx, { stagingJobId: job.id });
+      }
+
+      await tx.project.delete({
+        where: { id: projectId },
+      });
     });
 
+    // Remove originals and staged images from storage; a failure here only
+    // leaves orphaned objects behind, so it does not fail the request
+    try {
+      await deleteProjectFiles(userWithOrg.organization.id, projectId);
+    } catch (storageError) {
+      console.error('Failed to delete project files:', storageError);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Project deleted successfully',
     });
 
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     console.error('Failed to delete project:', error);
     return NextResponse.json(
       { error: 'Failed to delete project' },
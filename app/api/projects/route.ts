@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
-import { requireAuthWithOrg } from '@/lib/auth-utils';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { assertCanCreateProject, PlanLimitError } from '@/lib/plan-limits';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
 
 const createProjectSchema = z.object({
   name: z.string().min(1, 'Project name is required').max(255, 'Project name is too long'),
@@ -15,23 +19,42 @@ const updateProjectSchema = createProjectSchema.partial();
 
 export async function POST(request: NextRequest) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('projects:create');
     const body = await request.json();
     const validatedData = createProjectSchema.parse(body);
 
-    const project = await db.project.create({
-      data: {
-        ...validatedData,
-        organizationId: userWithOrg.organization.id,
-        createdBy: userWithOrg.user.id,
-      },
-      include: {
-        _count: {
-          select: {
-            roomImages: true,
+    await assertCanCreateProject(userWithOrg.organization.id);
+
+    const project = await db.$transaction(async (tx) => {
+      const created = await tx.project.create({
+        data: {
+          ...validatedData,
+          organizationId: userWithOrg.organization.id,
+          createdBy: userWithOrg.user.id,
+        },
+        include: {
+          _count: {
+            select: {
+              roomImages: true,
+            },
           },
         },
-      },
+      });
+
+      await enqueueWebhookEvent(tx, {
+        organizationId: created.organizationId,
+        type: 'project.created',
+        data: {
+          projectId: created.id,
+          name: created.name,
+          address: created.address,
+          mlsNumber: created.mlsNumber,
+          propertyType: created.propertyType,
+          createdBy: created.createdBy,
+        },
+      });
+
+      return created;
     });
 
     return NextResponse.json({ 
@@ -50,6 +73,14 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     console.error('Project creation failed:', error);
     
     if (error instanceof z.ZodError) {
@@ -59,6 +90,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof PlanLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit },
+        { status: 403 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to create project' },
       { status: 500 }
@@ -68,7 +106,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('projects:read');
     const { searchParams } = new URL(request.url);
     
     const page = parseInt(searchParams.get('page') || '1');
@@ -150,6 +188,14 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
     console.error('Failed to fetch projects:', error);
     return NextResponse.json(
       { error: 'Failed to fetch projects' },
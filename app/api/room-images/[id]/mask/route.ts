@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { assertWithinRateLimit, RateLimitError } from '@/lib/rate-limit';
+import { validateFile } from '@/lib/local-storage';
+import { getSignedAssetUrl, getStorage, saveUploadedFile } from '@/lib/storage';
+import { normalizeMask } from '@/lib/image-processing';
+
+async function findRoomImage(organizationId: string, id: string) {
+  return db.roomImage.findFirst({
+    where: { id, organizationId },
+    select: { id: true, s3Key: true, projectId: true, width: true, height: true },
+  });
+}
+
+// Save the area of the room to stage. The mask is scaled to the room image and
+// stored under a new key each time, so queued jobs keep the mask they were
+// created with.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('images:upload');
+    await assertWithinRateLimit('upload', {
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+    });
+    const { id } = await params;
+
+    const roomImage = await findRoomImage(userWithOrg.organization.id, id);
+    if (!roomImage) {
+      return NextResponse.json(
+        { error: 'Room image not found' },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('mask');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No mask provided' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    // Older uploads may not have their dimensions recorded
+    let { width, height } = roomImage;
+    if (!width || !height) {
+      const metadata = await sharp(await getStorage().get(roomImage.s3Key)).metadata();
+      width = metadata.width ?? null;
+      height = metadata.height ?? null;
+    }
+    if (!width || !height) {
+      return NextResponse.json(
+        { error: 'Unable to determine room image dimensions' },
+        { status: 422 }
+      );
+    }
+
+    let mask: Awaited<ReturnType<typeof normalizeMask>>;
+    try {
+      mask = await normalizeMask(Buffer.from(await file.arrayBuffer()), width, height);
+    } catch (maskError) {
+      console.error('Failed to read mask image:', maskError);
+      return NextResponse.json(
+        { error: 'Mask must be a valid image' },
+        { status: 400 }
+      );
+    }
+    if (mask.isEmpty) {
+      return NextResponse.json(
+        { error: 'Paint the area to stage before saving the mask' },
+        { status: 400 }
+      );
+    }
+
+    const saveResult = await saveUploadedFile(
+      mask.buffer,
+      `mask_${roomImage.id}_${Date.now()}.png`,
+      'image/png',
+      userWithOrg.organization.id,
+      roomImage.projectId,
+      'mask'
+    );
+    if (!saveResult.success || !saveResult.file) {
+      throw new Error(saveResult.error || 'Failed to save mask');
+    }
+
+    await db.roomImage.update({
+      where: { id: roomImage.id },
+      data: { maskKey: saveResult.file.key },
+    });
+
+    return NextResponse.json({
+      success: true,
+      maskUrl: await getSignedAssetUrl(saveResult.file.key),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    console.error('Failed to save mask:', error);
+    return NextResponse.json(
+      { error: 'Failed to save mask' },
+      { status: 500 }
+    );
+  }
+}
+
+// Go back to staging the whole room. The mask file stays in storage for jobs
+// that already used it and is removed with the project.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('images:upload');
+    const { id } = await params;
+
+    const roomImage = await findRoomImage(userWithOrg.organization.id, id);
+    if (!roomImage) {
+      return NextResponse.json(
+        { error: 'Room image not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.roomImage.update({
+      where: { id: roomImage.id },
+      data: { maskKey: null },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to remove mask:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove mask' },
+      { status: 500 }
+    );
+  }
+}
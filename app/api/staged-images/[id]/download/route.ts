@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { getStorage } from '@/lib/storage';
+import { applyWatermark, getWatermarkSettings, isWatermarkApplied } from '@/lib/watermark';
+
+// Deliver a staged image for listing or export. The disclosure watermark is
+// stamped on the way out according to the organization settings and the
+// project override; the stored master stays clean.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('staging:read');
+    const { id } = await params;
+
+    const stagedImage = await db.stagedImage.findFirst({
+      where: { id, organizationId: userWithOrg.organization.id },
+      select: {
+        id: true,
+        s3Key: true,
+        stagingJob: {
+          select: { roomImage: { select: { project: { select: { watermark: true } } } } },
+        },
+      },
+    });
+
+    if (!stagedImage) {
+      return NextResponse.json(
+        { error: 'Staged image not found' },
+        { status: 404 }
+      );
+    }
+
+    const storage = getStorage();
+    const master = await storage.get(stagedImage.s3Key);
+    const settings = getWatermarkSettings(userWithOrg.organization);
+
+    let delivered: { buffer: Buffer; mimeType: string } = {
+      buffer: master,
+      mimeType: stagedImage.s3Key.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg',
+    };
+    if (isWatermarkApplied(settings, stagedImage.stagingJob.roomImage.project.watermark)) {
+      let logo: Buffer | null = null;
+      if (settings.logoKey) {
+        try {
+          logo = await storage.get(settings.logoKey);
+        } catch (logoError) {
+          // Still deliver the disclosure text without the logo
+          console.error(`Failed to read watermark logo ${settings.logoKey}:`, logoError);
+        }
+      }
+      delivered = await applyWatermark(master, settings, logo);
+    }
+
+    const extension = delivered.mimeType === 'image/png' ? 'png' : 'jpg';
+    return new NextResponse(new Uint8Array(delivered.buffer), {
+      headers: {
+        'Content-Type': delivered.mimeType,
+        'Content-Length': delivered.buffer.length.toString(),
+        'Content-Disposition': `attachment; filename="staged-${stagedImage.id}.${extension}"`,
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to download staged image:', error);
+    return NextResponse.json(
+      { error: 'Failed to download staged image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+
+const reviewSchema = z.object({
+  reviewStatus: z.enum(['approved', 'rejected', 'pending']),
+});
+
+// Approve or reject a staged candidate. Only approved images are deliverables.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('staging:review');
+    const { id } = await params;
+    const body = await request.json();
+    const { reviewStatus } = reviewSchema.parse(body);
+
+    const stagedImage = await db.stagedImage.findFirst({
+      where: {
+        id,
+        organizationId: userWithOrg.organization.id,
+      },
+    });
+
+    if (!stagedImage) {
+      return NextResponse.json(
+        { error: 'Staged image not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedImage = await db.stagedImage.update({
+      where: { id },
+      data: {
+        reviewStatus,
+        isApproved: reviewStatus === 'approved',
+        reviewedBy: reviewStatus === 'pending' ? null : userWithOrg.user.id,
+        reviewedAt: reviewStatus === 'pending' ? null : new Date(),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      stagedImage: {
+        id: updatedImage.id,
+        stagingJobId: updatedImage.stagingJobId,
+        reviewStatus: updatedImage.reviewStatus,
+        isApproved: updatedImage.isApproved,
+        reviewedAt: updatedImage.reviewedAt,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to review staged image:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to review staged image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { cancelStagingJob, StagingJobError } from '@/lib/staging-jobs';
+
+// Cancel a queued job and release its reserved credits
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('staging:create');
+    const { id } = await params;
+
+    await cancelStagingJob(userWithOrg.organization.id, id);
+
+    return NextResponse.json({ success: true, status: 'cancelled' });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof StagingJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Staging job cancellation failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel staging job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { assertWithinRateLimit, RateLimitError } from '@/lib/rate-limit';
+import { InsufficientCreditsError } from '@/lib/credits';
+import { MAX_STAGING_VARIATIONS } from '@/lib/pricing';
+import { PlanLimitError } from '@/lib/plan-limits';
+import { restageStagingJob, StagingJobError } from '@/lib/staging-jobs';
+import { FURNITURE_DENSITIES, STAGING_BUDGETS } from '@/lib/style-presets';
+import { ROOM_TYPES } from '@/lib/prompt-templates';
+
+// Every field is optional; anything left out is copied from the original job
+const restageSchema = z.object({
+  roomType: z.enum(ROOM_TYPES).optional(), // defaults to the room image's type
+  prompt: z.string().max(1000).optional(),
+  style: z.string().min(1).max(100).optional(), // style preset id
+  preferences: z.object({
+    colors: z.array(z.string()).optional(),
+    furnitureCount: z.enum(FURNITURE_DENSITIES).optional(),
+    budget: z.enum(STAGING_BUDGETS).optional(),
+  }).optional(),
+  // Merged into the job's options and checked against its mode
+  modeOptions: z.record(z.string(), z.unknown()).optional(),
+  variations: z.number().int().min(1).max(MAX_STAGING_VARIATIONS).optional(),
+  useMask: z.boolean().optional(), // true uses the room's current mask; omitted keeps the job's
+});
+
+// Start a new job from a settled one with some parameters changed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('staging:create');
+    await assertWithinRateLimit('staging', {
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+    });
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const overrides = restageSchema.parse(body);
+
+    const { stagingJob, creditsRemaining } = await restageStagingJob({
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+      jobId: id,
+      overrides,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        stagingJobId: stagingJob.id,
+        parentJobId: stagingJob.parentJobId,
+        status: stagingJob.status,
+        variations: stagingJob.variations,
+        creditsRemaining,
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        {
+          error: "Insufficient credits",
+          creditsRemaining: error.creditsRemaining
+        },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof PlanLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof StagingJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Staging job re-stage failed:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to re-stage job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { assertWithinRateLimit, RateLimitError } from '@/lib/rate-limit';
+import { InsufficientCreditsError } from '@/lib/credits';
+import { PlanLimitError } from '@/lib/plan-limits';
+import { retryStagingJob, StagingJobError } from '@/lib/staging-jobs';
+
+// Queue a failed or cancelled job again with the same parameters. The new job
+// points back at the original and reserves its own credits.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('staging:create');
+    await assertWithinRateLimit('staging', {
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+    });
+    const { id } = await params;
+
+    const { stagingJob, creditsRemaining } = await retryStagingJob({
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+      jobId: id,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        stagingJobId: stagingJob.id,
+        parentJobId: stagingJob.parentJobId,
+        status: stagingJob.status,
+        variations: stagingJob.variations,
+        creditsRemaining,
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        {
+          error: "Insufficient credits",
+          creditsRemaining: error.creditsRemaining
+        },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof PlanLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof StagingJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Staging job retry failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry staging job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { findStagingJob, serializeStagingJob } from '@/lib/staging-jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('staging:read');
+    const { id } = await params;
+
+    const stagingJob = await findStagingJob(userWithOrg.organization.id, id);
+
+    if (!stagingJob) {
+      return NextResponse.json(
+        { error: 'Staging job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      stagingJob: await serializeStagingJob(stagingJob, { includeMaster: !('apiKeyId' in userWithOrg) }),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to fetch staging job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch staging job' },
+      { status: 500 }
+    );
+  }
+}
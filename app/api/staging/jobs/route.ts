@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import {
+  buildStagingJobWhere,
+  parseStagingJobFilters,
+  serializeStagingJob,
+  stagingJobInclude,
+} from '@/lib/staging-jobs';
+
+const MAX_PAGE_SIZE = 100;
+
+// Staging job history, newest first. Filter with projectId, roomImageId and
+// status (comma-separated, e.g. status=pending,processing).
+export async function GET(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('staging:read');
+    const { searchParams } = new URL(request.url);
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), MAX_PAGE_SIZE);
+    const skip = (page - 1) * limit;
+
+    const where = buildStagingJobWhere(userWithOrg.organization.id, parseStagingJobFilters(searchParams));
+
+    const [stagingJobs, totalCount] = await Promise.all([
+      db.stagingJob.findMany({
+        where,
+        include: stagingJobInclude,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      db.stagingJob.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      stagingJobs: await Promise.all(stagingJobs.map(job => serializeStagingJob(job, {
+        includeMaster: !('apiKeyId' in userWithOrg),
+      }))),
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNextPage: page < Math.ceil(totalCount / limit),
+        hasPreviousPage: page > 1,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to list staging jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list staging jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import {
+  buildStagingJobWhere,
+  parseStagingJobFilters,
+  serializeStagingJob,
+  stagingJobInclude,
+} from '@/lib/staging-jobs';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Hosting platforms cap how long a response may stay open. The stream ends
+// itself before that, and EventSource reconnects with Last-Event-ID.
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Jobs are written by the API and by workers on other hosts, so look back a
+// little further than the last poll to tolerate clock skew between them
+const CLOCK_SKEW_MS = 5 * 1000;
+
+// Server-Sent Events feed of staging job status changes. Takes the same
+// projectId, roomImageId and status filters as GET /api/staging/jobs. A new
+// connection first receives every job still pending or processing.
+export async function GET(request: NextRequest) {
+  let organizationId: string;
+  let includeMaster: boolean;
+  try {
+    const userWithOrg = await requirePermission('staging:read');
+    organizationId = userWithOrg.organization.id;
+    includeMaster = !('apiKeyId' in userWithOrg);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to open staging job stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open staging job stream' },
+      { status: 500 }
+    );
+  }
+
+  const where = buildStagingJobWhere(organizationId, parseStagingJobFilters(request.nextUrl.searchParams));
+
+  const lastEventId = request.headers.get('last-event-id');
+  const resumeFrom = lastEventId && !isNaN(Date.parse(lastEventId)) ? new Date(lastEventId) : null;
+
+  const encoder = new TextEncoder();
+  const sentStatuses = new Map<string, string>();
+  let cursor = new Date();
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(pollTimer);
+        clearInterval(heartbeatTimer);
+        controller.close();
+      };
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const findJobs = (extra: Prisma.StagingJobWhereInput) =>
+        db.stagingJob.findMany({
+          where: { AND: [where, extra] },
+          include: stagingJobInclude,
+          orderBy: { updatedAt: 'asc' },
+        });
+
+      // Only status transitions are sent; lease renewals also touch updatedAt
+      const emit = async (jobs: Awaited<ReturnType<typeof findJobs>>) => {
+        for (const job of jobs) {
+          if (job.updatedAt > cursor) cursor = job.updatedAt;
+          if (sentStatuses.get(job.id) === job.status) continue;
+          sentStatuses.set(job.id, job.status);
+
+          const payload = await serializeStagingJob(job, { includeMaster });
+          send(`id: ${job.updatedAt.toISOString()}\nevent: staging_job\ndata: ${JSON.stringify(payload)}\n\n`);
+        }
+      };
+
+      const poll = async () => {
+        try {
+          await emit(await findJobs({ updatedAt: { gte: new Date(cursor.getTime() - CLOCK_SKEW_MS) } }));
+        } catch (error) {
+          console.error('Staging job stream poll failed:', error);
+        }
+        if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+
+      request.signal.addEventListener('abort', close);
+      setTimeout(close, MAX_STREAM_MS);
+
+      send(`retry: ${POLL_INTERVAL_MS}\n\n`);
+      heartbeatTimer = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      try {
+        await emit(await findJobs(
+          resumeFrom
+            ? { updatedAt: { gt: resumeFrom } }
+            : { status: { in: ['pending', 'processing'] } }
+        ));
+      } catch (error) {
+        console.error('Failed to load staging jobs for stream:', error);
+      }
+
+      if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+    },
+    cancel() {
+      closed = true;
+      clearTimeout(pollTimer);
+      clearInterval(heartbeatTimer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
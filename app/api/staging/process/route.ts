@@ -1,202 +1,136 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { db } from '@/lib/db';
-import { requireAuthWithOrg } from '@/lib/auth-utils';
-import { processRoomStaging, validateStagingRequest, type StagingJobRequest } from '@/lib/gemini-production';
-
-const processJobSchema = z.object({
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { assertWithinRateLimit, RateLimitError } from '@/lib/rate-limit';
+import { InsufficientCreditsError } from '@/lib/credits';
+import { MAX_STAGING_VARIATIONS } from '@/lib/pricing';
+import { PlanLimitError } from '@/lib/plan-limits';
+import { enqueueStagingJob, StagingJobError } from '@/lib/staging-jobs';
+import { DEFAULT_STYLE_PRESET_ID, FURNITURE_DENSITIES, STAGING_BUDGETS } from '@/lib/style-presets';
+import { ROOM_TYPES } from '@/lib/prompt-templates';
+import { MODE_OPTIONS_SCHEMAS } from '@/lib/staging-mode-options';
+
+// Fields every mode accepts
+const commonFields = {
   roomImageId: z.string().cuid(),
+  roomType: z.enum(ROOM_TYPES).optional(), // defaults to the room image's type
   prompt: z.string().max(1000).optional(),
-  style: z.enum(['modern', 'traditional', 'minimalist', 'luxury', 'contemporary', 'rustic']).default('modern'),
-  preferences: z.object({
-    colors: z.array(z.string()).optional(),
-    furnitureCount: z.enum(['minimal', 'moderate', 'full']).optional(),
-    budget: z.enum(['economy', 'mid_range', 'luxury']).optional(),
-  }).optional(),
-});
+  variations: z.number().int().min(1).max(MAX_STAGING_VARIATIONS).default(1),
+  useMask: z.boolean().optional(), // stage only the area painted on the room's mask
+};
+
+// Each mode takes its own parameters; requests without a jobType are staging
+// requests, as they were before modes existed
+const processJobSchema = z.preprocess(
+  (body) => body && typeof body === 'object' && !('jobType' in body) ? { ...body, jobType: 'staging' } : body,
+  z.discriminatedUnion('jobType', [
+    z.object({
+      ...commonFields,
+      jobType: z.literal('staging'),
+      sourceImageId: z.string().cuid().optional(), // a decluttered result of the room to stage
+      style: z.string().min(1).max(100).default(DEFAULT_STYLE_PRESET_ID), // style preset id
+      preferences: z.object({
+        colors: z.array(z.string()).optional(),
+        furnitureCount: z.enum(FURNITURE_DENSITIES).optional(),
+        budget: z.enum(STAGING_BUDGETS).optional(),
+      }).optional(),
+    }),
+    z.object({
+      ...commonFields,
+      jobType: z.literal('declutter'),
+    }),
+    z.object({
+      ...commonFields,
+      jobType: z.literal('day_to_dusk'),
+      modeOptions: MODE_OPTIONS_SCHEMAS.day_to_dusk,
+    }),
+    z.object({
+      ...commonFields,
+      jobType: z.literal('sky_replacement'),
+      modeOptions: MODE_OPTIONS_SCHEMAS.sky_replacement,
+    }),
+    z.object({
+      ...commonFields,
+      jobType: z.literal('renovation'),
+      modeOptions: MODE_OPTIONS_SCHEMAS.renovation,
+    }),
+  ])
+);
 
 export async function POST(request: NextRequest) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('staging:create');
+    await assertWithinRateLimit('staging', {
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+    });
     const body = await request.json();
     const validatedData = processJobSchema.parse(body);
 
-    // Check if organization has sufficient credits
-    if (userWithOrg.organization.creditsRemaining < 1) {
-      return NextResponse.json(
-        { 
-          error: "Insufficient credits",
-          creditsRemaining: userWithOrg.organization.creditsRemaining 
-        },
-        { status: 402 }
-      );
-    }
+    const { roomImageId, ...parameters } = validatedData;
+    const { stagingJob, creditsRemaining } = await enqueueStagingJob({
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+      roomImageId,
+      parameters,
+    });
 
-    // Verify room image exists and belongs to user's organization
-    const roomImage = await db.roomImage.findFirst({
-      where: {
-        id: validatedData.roomImageId,
-        organizationId: userWithOrg.organization.id,
+    return NextResponse.json(
+      {
+        success: true,
+        stagingJobId: stagingJob.id,
+        jobType: stagingJob.jobType,
+        status: stagingJob.status,
+        variations: stagingJob.variations,
+        creditsRemaining,
       },
-      include: {
-        project: true,
-      }
-    });
+      { status: 202 }
+    );
 
-    if (!roomImage) {
-      return NextResponse.json(
-        { error: "Room image not found" },
-        { status: 404 }
-      );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
     }
 
-    // Create staging job record first
-    const stagingJob = await db.stagingJob.create({
-      data: {
-        roomImageId: validatedData.roomImageId,
-        organizationId: userWithOrg.organization.id,
-        prompt: validatedData.prompt || '',
-        stylePreferences: {
-          style: validatedData.style,
-          ...validatedData.preferences,
-        },
-        status: 'processing',
-        aiModel: 'gemini-2.5-flash-image-preview',
-        processingStartedAt: new Date(),
-        createdBy: userWithOrg.user.id,
-      },
-    });
-
-    // Build staging request
-    const stagingRequest: StagingJobRequest = {
-      roomImageId: roomImage.s3Key, // This contains the local file path
-      organizationId: userWithOrg.organization.id,
-      projectId: roomImage.project.id,
-      prompt: validatedData.prompt,
-      style: validatedData.style,
-      preferences: validatedData.preferences,
-    };
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
 
-    // Validate request
-    const validation = validateStagingRequest(stagingRequest);
-    if (!validation.valid) {
-      await db.stagingJob.update({
-        where: { id: stagingJob.id },
-        data: {
-          status: 'failed',
-          errorMessage: validation.error,
-          processingCompletedAt: new Date(),
-        },
-      });
-      
+    if (error instanceof RateLimitError) {
       return NextResponse.json(
-        { error: validation.error },
-        { status: 400 }
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
       );
     }
 
-    try {
-      // Process the staging job
-      const result = await processRoomStaging(stagingRequest);
-
-      if (result.success) {
-        // Update staging job as completed
-        const updatedJob = await db.stagingJob.update({
-          where: { id: stagingJob.id },
-          data: {
-            status: 'completed',
-            processingCompletedAt: new Date(),
-            aiCostCents: Math.round(result.aiMetadata!.estimatedCost * 100),
-          },
-        });
-
-        // Create staged image record
-        await db.stagedImage.create({
-          data: {
-            stagingJobId: stagingJob.id,
-            organizationId: userWithOrg.organization.id,
-            s3Key: result.stagedImagePath!,
-            s3Url: result.stagedImageUrl!,
-            aiMetadata: result.aiMetadata,
-            isApproved: true, // Auto-approve for now
-          },
-        });
-
-        // Deduct credit from organization
-        await db.organization.update({
-          where: { id: userWithOrg.organization.id },
-          data: {
-            creditsRemaining: {
-              decrement: 1,
-            },
-          },
-        });
-
-        // Log usage
-        await db.usageLog.create({
-          data: {
-            organizationId: userWithOrg.organization.id,
-            userId: userWithOrg.user.id,
-            action: 'room_staged',
-            resourceId: stagingJob.id,
-            aiCostCents: Math.round(result.aiMetadata!.estimatedCost * 100),
-            billableCredits: 1,
-          },
-        });
-
-        return NextResponse.json({
-          success: true,
-          stagingJobId: stagingJob.id,
-          stagedImageUrl: result.stagedImageUrl,
-          processingTime: result.processingTime,
-          creditsRemaining: userWithOrg.organization.creditsRemaining - 1,
-        });
-
-      } else {
-        // Update staging job as failed
-        await db.stagingJob.update({
-          where: { id: stagingJob.id },
-          data: {
-            status: 'failed',
-            errorMessage: result.error,
-            processingCompletedAt: new Date(),
-          },
-        });
-
-        return NextResponse.json(
-          { 
-            error: result.error || 'AI processing failed',
-            processingTime: result.processingTime 
-          },
-          { status: 500 }
-        );
-      }
-
-    } catch (processingError) {
-      console.error('AI processing error:', processingError);
-      
-      // Update staging job as failed
-      await db.stagingJob.update({
-        where: { id: stagingJob.id },
-        data: {
-          status: 'failed',
-          errorMessage: processingError instanceof Error ? processingError.message : 'Processing failed',
-          processingCompletedAt: new Date(),
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { 
+          error: "Insufficient credits",
+          creditsRemaining: error.creditsRemaining 
         },
-      });
+        { status: 402 }
+      );
+    }
 
+    if (error instanceof PlanLimitError) {
       return NextResponse.json(
-        { error: 'AI processing failed' },
-        { status: 500 }
+        { error: error.message, limit: error.limit },
+        { status: 403 }
       );
     }
 
-  } catch (error) {
+    if (error instanceof StagingJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error('Staging job creation failed:', error);
     
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: 'Invalid input data', details: error.errors },
+        { error: 'Invalid input data', details: error.issues },
         { status: 400 }
       );
     }
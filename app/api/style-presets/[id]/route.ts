@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import {
+  FURNITURE_DENSITIES,
+  STAGING_BUDGETS,
+  StylePresetError,
+  deleteStylePreset,
+  serializeStylePreset,
+  updateStylePreset,
+} from '@/lib/style-presets';
+
+const updateStylePresetSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  promptFragment: z.string().trim().min(10).max(1000).optional(),
+  colorPalette: z.array(z.string().trim().min(1).max(40)).max(8).optional(),
+  furnitureDensity: z.enum(FURNITURE_DENSITIES).nullable().optional(),
+  budget: z.enum(STAGING_BUDGETS).nullable().optional(),
+  thumbnailImageId: z.string().cuid().nullable().optional(),
+});
+
+// Only the organization's own presets can be edited; system presets are read-only
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('styles:manage');
+    const { id } = await params;
+    const body = await request.json();
+    const input = updateStylePresetSchema.parse(body);
+
+    const preset = await updateStylePreset(userWithOrg.organization.id, id, input);
+
+    return NextResponse.json({ success: true, stylePreset: await serializeStylePreset(preset) });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof StylePresetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Failed to update style preset:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update style preset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userWithOrg = await requirePermission('styles:manage');
+    const { id } = await params;
+
+    await deleteStylePreset(userWithOrg.organization.id, id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof StylePresetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Failed to delete style preset:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete style preset' },
+      { status: 500 }
+    );
+  }
+}
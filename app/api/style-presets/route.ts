@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import {
+  FURNITURE_DENSITIES,
+  STAGING_BUDGETS,
+  StylePresetError,
+  createStylePreset,
+  listStylePresets,
+  serializeStylePreset,
+} from '@/lib/style-presets';
+
+const createStylePresetSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(200).nullable().optional(),
+  promptFragment: z.string().trim().min(10).max(1000),
+  colorPalette: z.array(z.string().trim().min(1).max(40)).max(8).optional(),
+  furnitureDensity: z.enum(FURNITURE_DENSITIES).nullable().optional(),
+  budget: z.enum(STAGING_BUDGETS).nullable().optional(),
+  thumbnailImageId: z.string().cuid().nullable().optional(),
+});
+
+// System presets plus the organization's own; the id is what
+// /api/staging/process accepts as "style"
+export async function GET() {
+  try {
+    const userWithOrg = await requirePermission('staging:read');
+    const presets = await listStylePresets(userWithOrg.organization.id);
+
+    return NextResponse.json({
+      stylePresets: await Promise.all(presets.map(serializeStylePreset)),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    console.error('Failed to list style presets:', error);
+    return NextResponse.json(
+      { error: 'Failed to list style presets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userWithOrg = await requirePermission('styles:manage');
+    const body = await request.json();
+    const input = createStylePresetSchema.parse(body);
+
+    const preset = await createStylePreset(userWithOrg.organization.id, input);
+
+    return NextResponse.json(
+      { success: true, stylePreset: await serializeStylePreset(preset) },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof StylePresetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Failed to create style preset:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create style preset' },
+      { status: 500 }
+    );
+  }
+}
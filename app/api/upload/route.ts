@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
-import { requireAuthWithOrg } from '@/lib/auth-utils';
-import { validateFile, saveUploadedFile } from '@/lib/local-storage';
+import { requirePermission } from '@/lib/auth-utils';
+import { ApiKeyError } from '@/lib/api-keys';
+import { PermissionError } from '@/lib/permissions';
+import { assertWithinRateLimit, RateLimitError } from '@/lib/rate-limit';
+import { validateFile } from '@/lib/local-storage';
+import { getSignedAssetUrl, saveUploadedFile } from '@/lib/storage';
 import { processImage, validateImageFile, generateThumbnail } from '@/lib/image-processing';
 
 const uploadSchema = z.object({
@@ -12,7 +16,11 @@ const uploadSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const userWithOrg = await requireAuthWithOrg();
+    const userWithOrg = await requirePermission('images:upload');
+    await assertWithinRateLimit('upload', {
+      organization: userWithOrg.organization,
+      userId: userWithOrg.user.id,
+    });
     const formData = await request.formData();
     
     // Extract form data
@@ -83,7 +91,7 @@ export async function POST(request: NextRequest) {
         // Generate thumbnail for faster loading
         const thumbnailBuffer = await generateThumbnail(processedResult.buffer, 300);
         
-        // Save processed image to local storage
+        // Save processed image to the configured storage backend
         const saveResult = await saveUploadedFile(
           processedResult.buffer,
           file.name,
@@ -103,7 +111,7 @@ export async function POST(request: NextRequest) {
             projectId: validatedData.projectId,
             organizationId: userWithOrg.organization.id,
             filename: saveResult.file.filename,
-            s3Key: saveResult.file.path, // Using local path in s3Key field for now
+            s3Key: saveResult.file.key,
             s3Url: saveResult.file.url,
             fileSize: processedResult.metadata.size,
             mimeType: 'image/jpeg',
@@ -119,7 +127,7 @@ export async function POST(request: NextRequest) {
           id: roomImage.id,
           filename: saveResult.file.filename,
           originalName: saveResult.file.originalName,
-          url: saveResult.file.url,
+          url: await getSignedAssetUrl(roomImage.s3Key),
           size: processedResult.metadata.size,
           originalSize: processedResult.metadata.originalSize,
           compressionRatio: processedResult.metadata.compressionRatio,
@@ -150,6 +158,21 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response, { status: statusCode });
     
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
     console.error('Upload API error:', error);
     
     if (error instanceof z.ZodError) {
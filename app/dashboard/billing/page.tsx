@@ -16,6 +16,9 @@ export default async function BillingPage() {
           take: 50, // Get last 50 transactions
         },
         usageLogs: {
+          // Captures only record what a job cost; its reservation already
+          // shows the credits leaving the balance
+          where: { action: { not: 'room_staged' } },
           orderBy: { createdAt: 'desc' },
           take: 100, // Get last 100 usage logs
           include: {
@@ -1,10 +1,15 @@
 import { getCurrentUserWithOrg } from "@/lib/auth-utils";
 import { redirect, notFound } from "next/navigation";
 import { db } from "@/lib/db";
+import { getSignedAssetUrl } from "@/lib/storage";
+import { listStylePresets, serializeStylePreset } from "@/lib/style-presets";
+import { hasPermission } from "@/lib/permissions";
+import { PROJECT_WATERMARK_MODES, type ProjectWatermarkMode } from "@/lib/watermark";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ProjectDetailClient } from "@/components/projects/project-detail-client";
+import { ProjectWatermarkSelect } from "@/components/projects/project-watermark-select";
 import Link from "next/link";
 import { 
   ArrowLeft, 
@@ -47,6 +52,7 @@ export default async function ProjectDetailPage({ params }: ProjectDetailPagePro
             where: {
               status: 'completed',
             },
+            orderBy: { createdAt: 'desc' },
           },
         },
         orderBy: { createdAt: 'desc' },
@@ -95,11 +101,31 @@ export default async function ProjectDetailPage({ params }: ProjectDetailPagePro
   };
 
   const PropertyTypeIcon = getPropertyTypeIcon(project.propertyType);
+
+  // Swap stored URLs for short-lived signed ones before handing data to the client
+  const roomImages = await Promise.all(project.roomImages.map(async roomImage => ({
+    ...roomImage,
+    s3Url: await getSignedAssetUrl(roomImage.s3Key),
+    maskUrl: roomImage.maskKey ? await getSignedAssetUrl(roomImage.maskKey) : null,
+    stagingJobs: await Promise.all(roomImage.stagingJobs.map(async job => ({
+      ...job,
+      stagedImages: await Promise.all(job.stagedImages.map(async stagedImage => ({
+        ...stagedImage,
+        s3Url: await getSignedAssetUrl(stagedImage.s3Key),
+        // Decimals can't be passed to client components
+        qualityScore: stagedImage.qualityScore === null ? null : Number(stagedImage.qualityScore),
+      }))),
+    }))),
+  })));
+  
+  const stylePresets = await Promise.all(
+    (await listStylePresets(userWithOrg.organization.id)).map(serializeStylePreset)
+  );
   
-  // Calculate staged images count
+  // Calculate staged images count; variations still awaiting review are not delivered yet
   const stagedImagesCount = project.roomImages.reduce((total, roomImage) => {
     return total + roomImage.stagingJobs.reduce((jobTotal, job) => {
-      return jobTotal + job.stagedImages.length;
+      return jobTotal + job.stagedImages.filter(image => image.reviewStatus === 'approved').length;
     }, 0);
   }, 0);
 
@@ -153,6 +179,14 @@ export default async function ProjectDetailPage({ params }: ProjectDetailPagePro
                   Created {formatDate(project.createdAt)}
                 </div>
               </div>
+              <ProjectWatermarkSelect
+                projectId={project.id}
+                watermark={(PROJECT_WATERMARK_MODES as readonly string[]).includes(project.watermark)
+                  ? project.watermark as ProjectWatermarkMode
+                  : 'inherit'}
+                organizationDefault={userWithOrg.organization.watermarkEnabled}
+                canUpdate={hasPermission(userWithOrg.role, 'projects:update')}
+              />
             </div>
           </div>
         </CardHeader>
@@ -178,8 +212,10 @@ export default async function ProjectDetailPage({ params }: ProjectDetailPagePro
       <ProjectDetailClient 
         project={{
           ...project,
+          roomImages,
           stagedImagesCount,
         }}
+        stylePresets={stylePresets}
         creditsRemaining={userWithOrg.organization.creditsRemaining}
       />
     </div>
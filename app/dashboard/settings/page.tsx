@@ -0,0 +1,119 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUserWithOrg } from '@/lib/auth-utils';
+import { db } from '@/lib/db';
+import { listApiKeys } from '@/lib/api-keys';
+import { hasPermission } from '@/lib/permissions';
+import { WEBHOOK_EVENTS } from '@/lib/webhooks';
+import { getSignedAssetUrl } from '@/lib/storage';
+import { listStylePresets, serializeStylePreset } from '@/lib/style-presets';
+import { getWatermarkSettings, serializeWatermarkSettings } from '@/lib/watermark';
+import { ApiKeysManager } from '@/components/settings/api-keys-manager';
+import { WebhooksManager } from '@/components/settings/webhooks-manager';
+import { StylePresetsManager } from '@/components/settings/style-presets-manager';
+import { WatermarkSettings } from '@/components/settings/watermark-settings';
+
+const RECENT_DELIVERY_LIMIT = 25;
+const THUMBNAIL_OPTION_LIMIT = 12;
+
+export default async function SettingsPage() {
+  const userWithOrg = await getCurrentUserWithOrg();
+
+  if (!userWithOrg?.user) {
+    redirect('/sign-in');
+  }
+  if (!userWithOrg.organization) {
+    redirect('/dashboard');
+  }
+
+  const organizationId = userWithOrg.organization.id;
+  const canManageApiKeys = hasPermission(userWithOrg.role, 'api_keys:manage');
+  const canManageWebhooks = hasPermission(userWithOrg.role, 'webhooks:manage');
+  const canManageStyles = hasPermission(userWithOrg.role, 'styles:manage');
+  const canManageBranding = hasPermission(userWithOrg.role, 'branding:manage');
+
+  const [apiKeys, endpoints, deliveries, stylePresets, thumbnailImages] = await Promise.all([
+    canManageApiKeys ? listApiKeys(organizationId) : Promise.resolve([]),
+    canManageWebhooks
+      ? db.webhookEndpoint.findMany({
+          where: { organizationId },
+          orderBy: { createdAt: 'desc' },
+        })
+      : Promise.resolve([]),
+    canManageWebhooks
+      ? db.webhookDelivery.findMany({
+          where: { organizationId },
+          include: { endpoint: { select: { url: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: RECENT_DELIVERY_LIMIT,
+        })
+      : Promise.resolve([]),
+    listStylePresets(organizationId),
+    canManageStyles
+      ? db.stagedImage.findMany({
+          where: { organizationId, reviewStatus: 'approved' },
+          select: { id: true, s3Key: true },
+          orderBy: { createdAt: 'desc' },
+          take: THUMBNAIL_OPTION_LIMIT,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">
+          Settings for {userWithOrg.organization.name}
+        </p>
+      </div>
+
+      <ApiKeysManager
+        canManage={canManageApiKeys}
+        apiKeys={apiKeys.map(apiKey => ({
+          id: apiKey.id,
+          name: apiKey.name,
+          keyPrefix: apiKey.keyPrefix,
+          scopes: apiKey.scopes,
+          lastUsedAt: apiKey.lastUsedAt,
+          createdAt: apiKey.createdAt,
+          createdBy: apiKey.creator.name || apiKey.creator.email,
+        }))}
+      />
+
+      <WebhooksManager
+        canManage={canManageWebhooks}
+        availableEvents={[...WEBHOOK_EVENTS]}
+        endpoints={endpoints.map(endpoint => ({
+          id: endpoint.id,
+          url: endpoint.url,
+          events: endpoint.events,
+          enabled: endpoint.enabled,
+        }))}
+        deliveries={deliveries.map(delivery => ({
+          id: delivery.id,
+          eventType: delivery.eventType,
+          endpointUrl: delivery.endpoint.url,
+          status: delivery.status,
+          attempts: delivery.attempts,
+          responseStatus: delivery.responseStatus,
+          lastError: delivery.lastError,
+          createdAt: delivery.createdAt,
+        }))}
+      />
+
+      <StylePresetsManager
+        canManage={canManageStyles}
+        presets={await Promise.all(stylePresets.map(serializeStylePreset))}
+        thumbnailOptions={await Promise.all(thumbnailImages.map(async image => ({
+          id: image.id,
+          url: await getSignedAssetUrl(image.s3Key),
+        })))}
+      />
+
+      <WatermarkSettings
+        canManage={canManageBranding}
+        settings={await serializeWatermarkSettings(getWatermarkSettings(userWithOrg.organization))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUserWithOrg } from '@/lib/auth-utils';
+import { db } from '@/lib/db';
+import { hasPermission } from '@/lib/permissions';
+import { TeamManagementClient } from '@/components/team/team-management-client';
+
+export default async function TeamPage() {
+  const userWithOrg = await getCurrentUserWithOrg();
+
+  if (!userWithOrg?.user) {
+    redirect('/sign-in');
+  }
+  if (!userWithOrg.organization) {
+    redirect('/dashboard');
+  }
+
+  const organizationId = userWithOrg.organization.id;
+  const canInvite = hasPermission(userWithOrg.role, 'members:invite');
+
+  const [members, invitations] = await Promise.all([
+    db.organizationMember.findMany({
+      where: { organizationId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    canInvite
+      ? db.invitation.findMany({
+          where: { organizationId, status: 'pending', expiresAt: { gt: new Date() } },
+          orderBy: { createdAt: 'desc' },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return (
+    <TeamManagementClient
+      organizationName={userWithOrg.organization.name}
+      currentUserId={userWithOrg.user.id}
+      currentRole={userWithOrg.role ?? 'member'}
+      members={members.map(member => ({
+        id: member.id,
+        role: member.role,
+        joinedAt: member.createdAt,
+        user: member.user,
+      }))}
+      invitations={invitations.map(invitation => ({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      }))}
+    />
+  );
+}
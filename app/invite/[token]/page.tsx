@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import { getCurrentUser } from '@/lib/auth-utils';
+import { findInvitationByToken } from '@/lib/invitations';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { InvitationResponse } from '@/components/team/invitation-response';
+
+export default async function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const [invitation, user] = await Promise.all([
+    findInvitationByToken(token),
+    getCurrentUser(),
+  ]);
+
+  const isOpen = invitation?.status === 'pending' && invitation.expiresAt > new Date();
+  const invitePath = `/invite/${token}`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        {!invitation || !isOpen ? (
+          <>
+            <CardHeader>
+              <CardTitle>Invitation unavailable</CardTitle>
+              <CardDescription>
+                {!invitation
+                  ? 'This invitation link is not valid.'
+                  : invitation.status === 'pending'
+                    ? 'This invitation has expired. Ask for a new one.'
+                    : invitation.status === 'accepted' && user?.email.toLowerCase() === invitation.email
+                      ? `You're already a member of ${invitation.organization.name}.`
+                      : `This invitation has already been ${invitation.status}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="w-full">
+                <Link href="/dashboard">Go to dashboard</Link>
+              </Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Join {invitation.organization.name}</CardTitle>
+              <CardDescription>
+                {invitation.inviter?.name || invitation.inviter?.email || 'A teammate'} invited {invitation.email} to
+                join as {invitation.role}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!user && (
+                <div className="grid gap-2">
+                  <Button asChild>
+                    <Link href={`/sign-in?redirectTo=${encodeURIComponent(invitePath)}`}>Sign in to accept</Link>
+                  </Button>
+                  <Button asChild variant="outline">
+                    <Link href={`/sign-up?redirectTo=${encodeURIComponent(invitePath)}`}>Create an account</Link>
+                  </Button>
+                </div>
+              )}
+              {user && user.email.toLowerCase() !== invitation.email && (
+                <p className="text-sm text-red-600">
+                  You&apos;re signed in as {user.email}. Sign in as {invitation.email} to accept.
+                </p>
+              )}
+              <InvitationResponse
+                token={token}
+                canAccept={Boolean(user) && user?.email.toLowerCase() === invitation.email}
+              />
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
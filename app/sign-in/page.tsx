@@ -1,7 +1,14 @@
 import Link from "next/link";
+import { getSafeRedirectPath } from "@/lib/utils";
 import { SignInForm } from "@/components/auth/sign-in-form";
 
-export default function SignInPage() {
+export default async function SignInPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -11,7 +18,7 @@ export default function SignInPage() {
           </h2>
         </div>
         
-        <SignInForm />
+        <SignInForm redirectTo={getSafeRedirectPath(redirectTo)} />
         
         <div className="text-center">
           <p className="text-sm text-gray-600">
@@ -1,7 +1,14 @@
 import Link from "next/link";
+import { getSafeRedirectPath } from "@/lib/utils";
 import { SignUpForm } from "@/components/auth/sign-up-form";
 
-export default function SignUpPage() {
+export default async function SignUpPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -14,7 +21,7 @@ export default function SignUpPage() {
           </p>
         </div>
         
-        <SignUpForm />
+        <SignUpForm redirectTo={getSafeRedirectPath(redirectTo)} />
         
         <div className="text-center">
           <p className="text-sm text-gray-600">
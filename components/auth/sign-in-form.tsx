@@ -9,7 +9,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { toast } from "sonner";
 import { signIn } from "@/lib/auth-client";
 
-export function SignInForm() {
+interface SignInFormProps {
+  redirectTo?: string;
+}
+
+export function SignInForm({ redirectTo = "/dashboard" }: SignInFormProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -23,14 +27,14 @@ export function SignInForm() {
       const result = await signIn.email({
         email,
         password,
-        callbackURL: "/dashboard",
+        callbackURL: redirectTo,
       });
 
       if (result.error) {
         toast.error(result.error.message || "Sign in failed");
       } else {
         toast.success("Signed in successfully");
-        router.push("/dashboard");
+        router.push(redirectTo);
       }
     } catch {
       toast.error("Something went wrong. Please try again.");
@@ -44,7 +48,7 @@ export function SignInForm() {
     try {
       await signIn.social({
         provider: "google",
-        callbackURL: "/dashboard",
+        callbackURL: redirectTo,
       });
     } catch {
       toast.error("Google sign in failed");
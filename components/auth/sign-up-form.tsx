@@ -9,7 +9,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { toast } from "sonner";
 import { signUp, signIn } from "@/lib/auth-client";
 
-export function SignUpForm() {
+interface SignUpFormProps {
+  redirectTo?: string;
+}
+
+export function SignUpForm({ redirectTo = "/dashboard" }: SignUpFormProps) {
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -38,14 +42,14 @@ export function SignUpForm() {
         email,
         password,
         name,
-        callbackURL: "/dashboard",
+        callbackURL: redirectTo,
       });
 
       if (result.error) {
         toast.error(result.error.message || "Sign up failed");
       } else {
         toast.success("Account created successfully");
-        router.push("/dashboard");
+        router.push(redirectTo);
       }
     } catch {
       toast.error("Something went wrong. Please try again.");
@@ -59,7 +63,7 @@ export function SignUpForm() {
     try {
       await signIn.social({
         provider: "google",
-        callbackURL: "/dashboard",
+        callbackURL: redirectTo,
       });
     } catch {
       toast.error("Google sign up failed");
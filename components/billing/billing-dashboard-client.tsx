@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { CreditPurchaseInterface } from '@/components/payments/credit-purchase-interface';
+import { SubscriptionPlans } from '@/components/billing/subscription-plans';
+import { PAID_STATUSES } from '@/lib/pricing';
 import {
   Table,
   TableBody,
@@ -20,11 +22,13 @@ import {
   Calendar,
   DollarSign,
   Activity,
+  AlertTriangle,
 } from 'lucide-react';
 import { formatDistance } from 'date-fns';
 
 interface Transaction {
   id: string;
+  type: string; // payment, refund, dispute
   amountCents: number;
   currency: string;
   status: string;
@@ -48,7 +52,12 @@ interface Organization {
   id: string;
   name: string;
   creditsRemaining: number;
+  creditsOwed: number;
+  billingFlagReason: string | null;
   planType: string;
+  subscriptionStatus: string | null;
+  stripeSubscriptionId: string | null;
+  currentPeriodEnd: Date | null;
   transactions: Transaction[];
   usageLogs: UsageLog[];
 }
@@ -62,6 +71,19 @@ interface BillingDashboardClientProps {
   };
 }
 
+const getTransactionFallbackDescription = (type: string) => {
+  switch (type) {
+    case 'refund':
+      return 'Refund';
+    case 'dispute':
+      return 'Payment dispute';
+    case 'subscription':
+      return 'Subscription';
+    default:
+      return 'Credit purchase';
+  }
+};
+
 export function BillingDashboardClient({ 
   organization 
 }: BillingDashboardClientProps) {
@@ -85,6 +107,17 @@ export function BillingDashboardClient({
         return <Badge variant="destructive">Failed</Badge>;
       case 'pending':
         return <Badge variant="secondary">Pending</Badge>;
+      case 'partially_refunded':
+        return <Badge variant="secondary">Partially Refunded</Badge>;
+      case 'refunded':
+        return <Badge variant="secondary">Refunded</Badge>;
+      case 'disputed':
+        return <Badge className="bg-yellow-100 text-yellow-800">Disputed</Badge>;
+      case 'won':
+        return <Badge className="bg-green-100 text-green-800">Dispute Won</Badge>;
+      case 'lost':
+      case 'charged_back':
+        return <Badge variant="destructive">Charged Back</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -96,22 +129,45 @@ export function BillingDashboardClient({
         return 'AI Staging';
       case 'credits_purchased':
         return 'Credits Added';
+      case 'credits_reserved':
+        return 'Credits Reserved';
+      case 'credits_released':
+        return 'Credits Released';
+      case 'credits_clawed_back':
+        return 'Refund Adjustment';
+      case 'credits_restored':
+        return 'Credits Restored';
+      case 'credits_allotted':
+        return 'Monthly Credits';
+      case 'trial_credits_granted':
+        return 'Trial Credits';
+      case 'credits_expired':
+        return 'Credits Expired';
       default:
         return action.replace('_', ' ');
     }
   };
 
+  // Refunds and lost disputes are their own rows that offset the original
+  // payment, whose status records what happened to it
+  const countsTowardTotals = (t: Transaction) =>
+    ((t.type === 'payment' || t.type === 'subscription') && PAID_STATUSES.includes(t.status))
+    || t.type === 'refund'
+    || (t.type === 'dispute' && t.status === 'lost');
+
   // Calculate totals
   const totalSpent = organization.transactions
-    .filter(t => t.status === 'succeeded')
-    .reduce((sum, t) => sum + t.amountCents, 0);
+    .filter(countsTowardTotals)
+    .reduce((sum, t) => sum + (t.type === 'refund' || t.type === 'dispute' ? -t.amountCents : t.amountCents), 0);
 
+  // Reservations are released again when a job fails, so summing every
+  // non-purchase entry nets those out
   const totalCreditsUsed = organization.usageLogs
-    .filter(log => log.billableCredits > 0)
+    .filter(log => !['credits_purchased', 'credits_allotted', 'trial_credits_granted', 'credits_expired', 'credits_clawed_back', 'credits_restored'].includes(log.action))
     .reduce((sum, log) => sum + log.billableCredits, 0);
 
   const totalCreditsPurchased = organization.transactions
-    .filter(t => t.status === 'succeeded')
+    .filter(countsTowardTotals)
     .reduce((sum, t) => sum + t.roomsPurchased, 0);
 
   return (
@@ -123,6 +179,22 @@ export function BillingDashboardClient({
         </p>
       </div>
 
+      {organization.creditsOwed > 0 && (
+        <Card className="border-yellow-300 bg-yellow-50">
+          <CardContent className="flex items-start gap-3 pt-6">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 shrink-0" />
+            <div>
+              <p className="font-medium text-yellow-900">
+                {organization.creditsOwed} credits owed from a refunded or disputed payment
+              </p>
+              <p className="text-sm text-yellow-800">
+                {organization.billingFlagReason || 'These credits were used before the payment was reversed.'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -182,8 +254,9 @@ export function BillingDashboardClient({
 
       {/* Main Content */}
       <Tabs defaultValue="purchase" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="purchase">Buy Credits</TabsTrigger>
+          <TabsTrigger value="plan">Plan</TabsTrigger>
           <TabsTrigger value="transactions">Transaction History</TabsTrigger>
           <TabsTrigger value="usage">Usage History</TabsTrigger>
         </TabsList>
@@ -196,12 +269,16 @@ export function BillingDashboardClient({
           />
         </TabsContent>
 
+        <TabsContent value="plan">
+          <SubscriptionPlans organization={organization} />
+        </TabsContent>
+
         <TabsContent value="transactions">
           <Card>
             <CardHeader>
               <CardTitle>Transaction History</CardTitle>
               <CardDescription>
-                All credit purchases and payment attempts
+                All credit purchases, payment attempts, refunds and disputes
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -234,7 +311,7 @@ export function BillingDashboardClient({
                           </div>
                         </TableCell>
                         <TableCell>
-                          {transaction.description || 'Credit purchase'}
+                          {transaction.description || getTransactionFallbackDescription(transaction.type)}
                         </TableCell>
                         <TableCell>
                           {transaction.roomsPurchased > 0 ? (
@@ -242,12 +319,19 @@ export function BillingDashboardClient({
                               <Zap className="mr-1 h-3 w-3 text-blue-500" />
                               +{transaction.roomsPurchased}
                             </div>
+                          ) : transaction.roomsPurchased < 0 ? (
+                            <div className="flex items-center text-red-600">
+                              <Zap className="mr-1 h-3 w-3" />
+                              {transaction.roomsPurchased}
+                            </div>
                           ) : (
                             <span className="text-gray-400">-</span>
                           )}
                         </TableCell>
                         <TableCell className="font-medium">
-                          {formatCurrency(transaction.amountCents)}
+                          {transaction.type === 'refund' || transaction.type === 'dispute'
+                            ? `-${formatCurrency(transaction.amountCents)}`
+                            : formatCurrency(transaction.amountCents)}
                         </TableCell>
                         <TableCell>
                           {getStatusBadge(transaction.status)}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { SUBSCRIPTION_PLANS, getEffectivePlan, type SubscriptionPlan } from "@/lib/pricing";
+import { toast } from "sonner";
+import { Check, Loader2, Zap } from "lucide-react";
+
+interface SubscriptionPlansProps {
+  organization: {
+    planType: string;
+    subscriptionStatus: string | null;
+    stripeSubscriptionId: string | null;
+    currentPeriodEnd: Date | null;
+  };
+}
+
+const formatLimit = (value: number | null, noun: string) =>
+  value === null ? `Unlimited ${noun}` : `Up to ${value} ${noun}`;
+
+export function SubscriptionPlans({ organization }: SubscriptionPlansProps) {
+  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null);
+  const currentPlan = getEffectivePlan(organization);
+  const hasSubscription = Boolean(organization.stripeSubscriptionId);
+
+  const selectPlan = async (plan: SubscriptionPlan) => {
+    setPendingPlanId(plan.id);
+    try {
+      const response = await fetch('/api/billing/subscription', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ planId: plan.id }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update subscription');
+      }
+
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+
+      toast.success(`Switching to the ${plan.name} plan. Changes apply once the prorated invoice is paid.`);
+    } catch (error) {
+      console.error('Plan change failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update subscription');
+    } finally {
+      setPendingPlanId(null);
+    }
+  };
+
+  const cancelPlan = async () => {
+    setPendingPlanId('cancel');
+    try {
+      const response = await fetch('/api/billing/subscription', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel subscription');
+      }
+      toast.success('Your subscription will end at the close of the current billing period.');
+    } catch (error) {
+      console.error('Plan cancellation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel subscription');
+    } finally {
+      setPendingPlanId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        {SUBSCRIPTION_PLANS.map(plan => {
+          const isCurrent = plan.id === currentPlan.id;
+
+          return (
+            <Card key={plan.id} className={isCurrent ? 'ring-2 ring-blue-500 border-blue-500' : undefined}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{plan.name}</CardTitle>
+                  {isCurrent && <Badge>Current plan</Badge>}
+                </div>
+                <CardDescription>
+                  {plan.monthlyPrice > 0 ? `$${plan.monthlyPrice}/month` : 'Pay as you go'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="space-y-2 text-sm">
+                  <li className="flex items-center">
+                    <Zap className="mr-2 h-4 w-4 text-blue-500" />
+                    {plan.monthlyCredits > 0 ? `${plan.monthlyCredits} credits every month` : 'Buy credits as needed'}
+                  </li>
+                  {plan.maxRolloverCredits > 0 && (
+                    <li className="flex items-center">
+                      <Check className="mr-2 h-4 w-4 text-green-500" />
+                      Roll over up to {plan.maxRolloverCredits} unused credits
+                    </li>
+                  )}
+                  <li className="flex items-center">
+                    <Check className="mr-2 h-4 w-4 text-green-500" />
+                    {formatLimit(plan.limits.maxMembers, 'members')}
+                  </li>
+                  <li className="flex items-center">
+                    <Check className="mr-2 h-4 w-4 text-green-500" />
+                    {formatLimit(plan.limits.maxProjects, 'projects')}
+                  </li>
+                  {plan.limits.premiumStyles && (
+                    <li className="flex items-center">
+                      <Check className="mr-2 h-4 w-4 text-green-500" />
+                      Premium staging styles
+                    </li>
+                  )}
+                </ul>
+
+                {plan.monthlyPrice > 0 && !isCurrent && (
+                  <Button
+                    className="w-full"
+                    onClick={() => selectPlan(plan)}
+                    disabled={pendingPlanId !== null}
+                  >
+                    {pendingPlanId === plan.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {hasSubscription ? `Switch to ${plan.name}` : `Subscribe to ${plan.name}`}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {hasSubscription && (
+        <div className="flex items-center justify-between rounded-lg border p-4 text-sm">
+          <span className="text-muted-foreground">
+            {organization.subscriptionStatus === 'past_due'
+              ? 'Your last payment failed. Stripe will retry it automatically.'
+              : organization.currentPeriodEnd
+                ? `Renews on ${new Date(organization.currentPeriodEnd).toLocaleDateString()}`
+                : 'Subscription active'}
+          </span>
+          <Button variant="outline" size="sm" onClick={cancelPlan} disabled={pendingPlanId !== null}>
+            {pendingPlanId === 'cancel' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancel subscription
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
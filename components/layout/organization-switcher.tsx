@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Building2, Check, ChevronsUpDown, Loader2, Plus } from "lucide-react";
+
+interface OrganizationOption {
+  id: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+}
+
+export function OrganizationSwitcher() {
+  const router = useRouter();
+  const [organizations, setOrganizations] = useState<OrganizationOption[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadOrganizations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/organizations');
+      if (!response.ok) return;
+      const data = await response.json();
+      setOrganizations(data.organizations);
+    } catch (error) {
+      console.error('Failed to load organizations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOrganizations();
+  }, [loadOrganizations]);
+
+  const activeOrganization = organizations.find(organization => organization.isActive);
+
+  // Pages hold data for the previous organization, so go back to the dashboard
+  const afterSwitch = async () => {
+    await loadOrganizations();
+    router.push('/dashboard');
+    router.refresh();
+  };
+
+  const switchOrganization = async (organization: OrganizationOption) => {
+    if (organization.isActive) return;
+
+    setIsSwitching(true);
+    try {
+      const response = await fetch('/api/organizations/active', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: organization.id }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to switch organization');
+      }
+      toast.success(`Switched to ${organization.name}`);
+      await afterSwitch();
+    } catch (error) {
+      console.error('Organization switch failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to switch organization');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const createOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create organization');
+      }
+      toast.success(`Created ${newName}`);
+      setIsCreateOpen(false);
+      setNewName('');
+      await afterSwitch();
+    } catch (error) {
+      console.error('Organization creation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create organization');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full justify-between" disabled={isSwitching}>
+            <span className="flex items-center truncate">
+              {isSwitching ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Building2 className="mr-2 h-4 w-4" />
+              )}
+              <span className="truncate">{activeOrganization?.name ?? 'Select organization'}</span>
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-56" align="start">
+          <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+          {organizations.map(organization => (
+            <DropdownMenuItem key={organization.id} onSelect={() => switchOrganization(organization)}>
+              <span className="flex-1 truncate">{organization.name}</span>
+              {organization.isActive && <Check className="ml-2 h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create organization
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <form onSubmit={createOrganization}>
+            <DialogHeader>
+              <DialogTitle>Create organization</DialogTitle>
+              <DialogDescription>
+                You&apos;ll be the owner and can invite teammates from the Team page.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="my-4 space-y-2">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                placeholder="Acme Realty"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={100}
+                required
+                disabled={isCreating}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating || !newName.trim()}>
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
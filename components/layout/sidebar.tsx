@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { OrganizationSwitcher } from "@/components/layout/organization-switcher";
 import {
   Home,
   FolderOpen,
@@ -27,6 +28,9 @@ export function Sidebar() {
   return (
     <div className="flex h-full w-64 flex-col bg-gray-50">
       <div className="flex flex-1 flex-col pt-5 pb-4 overflow-y-auto">
+        <div className="px-2">
+          <OrganizationSwitcher />
+        </div>
         <nav className="mt-5 flex-1 px-2 space-y-1">
           {navigation.map((item) => {
             const isActive = pathname === item.href;
@@ -7,23 +7,28 @@ import { MobileTabs, useMobile } from "@/components/ui/responsive-layout";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { MultiFileUpload } from "@/components/upload/multi-file-upload";
-import { RoomStagingInterface } from "@/components/staging/room-staging-interface";
+import { RoomStagingInterface, type StylePresetOption } from "@/components/staging/room-staging-interface";
 import Link from "next/link";
 import { 
   Upload,
   Image as ImageIcon,
   Wand2,
   CheckCircle,
-  Calendar
+  Calendar,
+  Download
 } from "lucide-react";
 import Image from "next/image";
 import { cn } from "@/lib/utils";
+import { STAGING_JOB_TYPES, type StagingJobType } from "@/lib/pricing";
 
 interface StagedImage {
   id: string;
   s3Url: string;
   createdAt: Date;
   isApproved: boolean;
+  reviewStatus: string;
+  qualityScore: number | null;
+  qualityFlagged: boolean;
 }
 
 interface StylePreferences {
@@ -36,6 +41,7 @@ interface StylePreferences {
 interface StagingJob {
   id: string;
   status: string;
+  jobType: string;
   stylePreferences: any;
   createdAt: Date;
   stagedImages: StagedImage[];
@@ -51,10 +57,56 @@ interface RoomImage {
   fileSize?: number | null;
   mimeType?: string | null;
   uploadStatus: string;
+  maskUrl: string | null;
   createdAt: Date;
   stagingJobs: StagingJob[];
 }
 
+// How completed jobs of the edit modes are described
+const JOB_TYPE_LABELS: Record<string, string> = {
+  declutter: 'Decluttered',
+  day_to_dusk: 'Day to dusk',
+  sky_replacement: 'Sky replaced',
+  renovation: 'Renovation preview',
+};
+
+// Jobs arrive newest first; hand the latest one to the staging interface so
+// variations still awaiting review can be picked after a reload
+function getLatestStagingJob(roomImage: RoomImage) {
+  const job = roomImage.stagingJobs[0];
+  if (!job) return null;
+
+  return {
+    id: job.id,
+    jobType: (STAGING_JOB_TYPES as readonly string[]).includes(job.jobType)
+      ? job.jobType as StagingJobType
+      : 'staging' as const,
+    processingTime: null,
+    stagedImages: job.stagedImages.map(stagedImage => ({
+      id: stagedImage.id,
+      url: stagedImage.s3Url,
+      reviewStatus: stagedImage.reviewStatus as 'pending' | 'approved' | 'rejected',
+      qualityFlagged: stagedImage.qualityFlagged,
+    })),
+  };
+}
+
+function getApprovedImages(job: StagingJob) {
+  return job.stagedImages.filter(stagedImage => stagedImage.reviewStatus === 'approved');
+}
+
+// Downloads carry the disclosure watermark unless the project opts out
+function DownloadButton({ stagedImageId }: { stagedImageId: string }) {
+  return (
+    <Button size="sm" variant="secondary" className="absolute bottom-2 right-2" asChild>
+      <a href={`/api/staged-images/${stagedImageId}/download`} download>
+        <Download className="mr-1 h-3 w-3" />
+        Download
+      </a>
+    </Button>
+  );
+}
+
 interface ProjectDetailClientProps {
   project: {
     id: string;
@@ -62,10 +114,11 @@ interface ProjectDetailClientProps {
     roomImages: RoomImage[];
     stagedImagesCount: number;
   };
+  stylePresets: StylePresetOption[];
   creditsRemaining: number;
 }
 
-export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetailClientProps) {
+export function ProjectDetailClient({ project, stylePresets, creditsRemaining }: ProjectDetailClientProps) {
   const [refreshKey, setRefreshKey] = useState(0);
   const isMobile = useMobile();
 
@@ -238,6 +291,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
         </Card>
       ) : (
         <RoomStagingInterface 
+          projectId={project.id}
           roomImages={project.roomImages.map(image => ({
             id: image.id,
             filename: image.filename,
@@ -246,7 +300,10 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
             width: image.width ?? undefined,
             height: image.height ?? undefined,
             fileSize: image.fileSize ?? undefined,
+            maskUrl: image.maskUrl,
+            latestStagingJob: getLatestStagingJob(image),
           }))}
+          stylePresets={stylePresets}
           creditsRemaining={creditsRemaining}
           onStagingComplete={handleStagingComplete}
         />
@@ -276,7 +333,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
         <div className="space-y-6">
           {project.roomImages.map((roomImage) => 
             roomImage.stagingJobs
-              .filter(job => job.status === 'completed' && job.stagedImages.length > 0)
+              .filter(job => job.status === 'completed' && getApprovedImages(job).length > 0)
               .map((job) => (
                 <Card key={job.id}>
                   <CardHeader>
@@ -284,7 +341,9 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
                       Staged: {roomImage.filename}
                     </CardTitle>
                     <CardDescription>
-                      Style: {job.stylePreferences?.style || 'modern'} • 
+                      {job.jobType !== 'staging'
+                        ? JOB_TYPE_LABELS[job.jobType] ?? job.jobType
+                        : `Style: ${job.stylePreferences?.stylePreset?.name || job.stylePreferences?.style || 'modern'}`} • 
                       Created {formatDate(new Date(job.createdAt))}
                     </CardDescription>
                   </CardHeader>
@@ -310,7 +369,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
                       <div>
                         <h4 className="font-medium mb-3">AI Staged</h4>
                         <div className="space-y-4">
-                          {job.stagedImages.map((stagedImage) => (
+                          {getApprovedImages(job).map((stagedImage) => (
                             <div key={stagedImage.id} className="relative aspect-video">
                               <Image
                                 src={stagedImage.s3Url}
@@ -324,6 +383,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
                                   Approved
                                 </Badge>
                               )}
+                              <DownloadButton stagedImageId={stagedImage.id} />
                             </div>
                           ))}
                         </div>
@@ -485,6 +545,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
           </Card>
         ) : (
           <RoomStagingInterface 
+            projectId={project.id}
             roomImages={project.roomImages.map(image => ({
               id: image.id,
               filename: image.filename,
@@ -493,7 +554,9 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
               width: image.width ?? undefined,
               height: image.height ?? undefined,
               fileSize: image.fileSize ?? undefined,
+              latestStagingJob: getLatestStagingJob(image),
             }))}
+            stylePresets={stylePresets}
             creditsRemaining={creditsRemaining}
             onStagingComplete={handleStagingComplete}
           />
@@ -524,7 +587,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
           <div className="space-y-6">
             {project.roomImages.map((roomImage) => 
               roomImage.stagingJobs
-                .filter(job => job.status === 'completed' && job.stagedImages.length > 0)
+                .filter(job => job.status === 'completed' && getApprovedImages(job).length > 0)
                 .map((job) => (
                   <Card key={job.id}>
                     <CardHeader>
@@ -532,7 +595,9 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
                         Staged: {roomImage.filename}
                       </CardTitle>
                       <CardDescription>
-                        Style: {job.stylePreferences?.style || 'modern'} • 
+                        {job.jobType !== 'staging'
+                          ? JOB_TYPE_LABELS[job.jobType] ?? job.jobType
+                          : `Style: ${job.stylePreferences?.stylePreset?.name || job.stylePreferences?.style || 'modern'}`} • 
                         Created {formatDate(new Date(job.createdAt))}
                       </CardDescription>
                     </CardHeader>
@@ -555,7 +620,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
                         <div>
                           <h4 className="font-medium mb-3">AI Staged</h4>
                           <div className="space-y-4">
-                            {job.stagedImages.map((stagedImage) => (
+                            {getApprovedImages(job).map((stagedImage) => (
                               <div key={stagedImage.id} className="relative aspect-video">
                                 <Image
                                   src={stagedImage.s3Url}
@@ -569,6 +634,7 @@ export function ProjectDetailClient({ project, creditsRemaining }: ProjectDetail
                                     Approved
                                   </Badge>
                                 )}
+                                <DownloadButton stagedImageId={stagedImage.id} />
                               </div>
                             ))}
                           </div>
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Stamp } from "lucide-react";
+import type { ProjectWatermarkMode } from "@/lib/watermark";
+
+interface ProjectWatermarkSelectProps {
+  projectId: string;
+  watermark: ProjectWatermarkMode;
+  organizationDefault: boolean; // whether the organization watermarks downloads
+  canUpdate: boolean;
+}
+
+// Per-project override of the disclosure watermark, for markets whose rules
+// differ from the organization default
+export function ProjectWatermarkSelect({ projectId, watermark, organizationDefault, canUpdate }: ProjectWatermarkSelectProps) {
+  const [value, setValue] = useState<ProjectWatermarkMode>(watermark);
+  const [saving, setSaving] = useState(false);
+
+  const updateWatermark = async (next: ProjectWatermarkMode) => {
+    const previous = value;
+    setValue(next);
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ watermark: next }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast.success('Download watermark updated');
+    } catch (error) {
+      console.error('Failed to update project watermark:', error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+      setValue(previous);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Stamp className="h-4 w-4" />
+      <span>Download watermark</span>
+      <Select value={value} onValueChange={(next: ProjectWatermarkMode) => updateWatermark(next)} disabled={!canUpdate || saving}>
+        <SelectTrigger className="h-8 w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="inherit">Organization default ({organizationDefault ? 'on' : 'off'})</SelectItem>
+          <SelectItem value="on">Always on</SelectItem>
+          <SelectItem value="off">Off for this project</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/permissions";
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  createdBy: string;
+}
+
+interface ApiKeysManagerProps {
+  canManage: boolean;
+  apiKeys: ApiKeySummary[];
+}
+
+export function ApiKeysManager({ canManage, apiKeys }: ApiKeysManagerProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['projects:read']);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/organization/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+      setCreatedKey(data.key);
+      setName('');
+      router.refresh();
+    } catch (error) {
+      console.error('API key creation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeKey = async (apiKey: ApiKeySummary) => {
+    setRevokingId(apiKey.id);
+    try {
+      const response = await fetch(`/api/organization/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to revoke API key');
+      }
+      toast.success(`${apiKey.name} revoked`);
+      router.refresh();
+    } catch (error) {
+      console.error('API key revocation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API key');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success('API key copied');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          API keys
+        </CardTitle>
+        <CardDescription>
+          Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to use the projects, upload and staging APIs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!canManage ? (
+          <p className="text-sm text-muted-foreground">
+            Only organization owners and admins can manage API keys.
+          </p>
+        ) : (
+          <>
+            {createdKey && (
+              <Alert>
+                <AlertDescription className="space-y-2">
+                  <p>Copy this key now. It won&apos;t be shown again.</p>
+                  <div className="flex gap-2">
+                    <Input value={createdKey} readOnly className="font-mono" />
+                    <Button variant="outline" size="icon" onClick={copyKey}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={createKey} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="CRM sync"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={100}
+                  required
+                  disabled={isCreating}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {API_KEY_SCOPES.map(({ scope, description }) => (
+                    <label key={scope} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={scopes.includes(scope)}
+                        onChange={(e) => toggleScope(scope, e.target.checked)}
+                        disabled={isCreating}
+                      />
+                      <span>
+                        <span className="font-mono">{scope}</span>
+                        <span className="block text-muted-foreground">{description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" disabled={isCreating || !name.trim() || scopes.length === 0}>
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create key
+              </Button>
+            </form>
+
+            {apiKeys.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {apiKeys.map(apiKey => (
+                    <TableRow key={apiKey.id}>
+                      <TableCell>
+                        <div className="font-medium">{apiKey.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          <span className="font-mono">{apiKey.keyPrefix}…</span> · created by {apiKey.createdBy}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map(scope => (
+                            <Badge key={scope} variant="outline">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {apiKey.lastUsedAt
+                          ? formatDistance(new Date(apiKey.lastUsedAt), new Date(), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeKey(apiKey)}
+                          disabled={revokingId !== null}
+                        >
+                          {revokingId === apiKey.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="mr-2 h-4 w-4" />
+                          )}
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Palette, Pencil, Trash2 } from "lucide-react";
+
+interface StylePresetSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  promptFragment: string;
+  colorPalette: string[];
+  furnitureDensity: string | null;
+  budget: string | null;
+  isSystem: boolean;
+  thumbnailUrl: string | null;
+}
+
+interface ThumbnailOption {
+  id: string;
+  url: string;
+}
+
+interface StylePresetsManagerProps {
+  canManage: boolean;
+  presets: StylePresetSummary[];
+  thumbnailOptions: ThumbnailOption[];
+}
+
+interface PresetForm {
+  name: string;
+  description: string;
+  promptFragment: string;
+  colors: string;
+  furnitureDensity: string;
+  budget: string;
+  thumbnailImageId: string | null;
+}
+
+// "any" leaves the choice to each staging request
+const ANY = 'any';
+
+const EMPTY_FORM: PresetForm = {
+  name: '',
+  description: '',
+  promptFragment: '',
+  colors: '',
+  furnitureDensity: ANY,
+  budget: ANY,
+  thumbnailImageId: null,
+};
+
+export function StylePresetsManager({ canManage, presets, thumbnailOptions }: StylePresetsManagerProps) {
+  const router = useRouter();
+  const [form, setForm] = useState<PresetForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const customPresets = presets.filter(preset => !preset.isSystem);
+  const systemPresets = presets.filter(preset => preset.isSystem);
+
+  const updateForm = (changes: Partial<PresetForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const startEditing = (preset: StylePresetSummary) => {
+    setEditingId(preset.id);
+    setForm({
+      name: preset.name,
+      description: preset.description ?? '',
+      promptFragment: preset.promptFragment,
+      colors: preset.colorPalette.join(', '),
+      furnitureDensity: preset.furnitureDensity ?? ANY,
+      budget: preset.budget ?? ANY,
+      // Keep the current thumbnail unless a new one is picked
+      thumbnailImageId: null,
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const runAction = async (key: string, request: () => Promise<Response>, successMessage: string) => {
+    setPendingAction(key);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast.success(successMessage);
+      router.refresh();
+      return data;
+    } catch (error) {
+      console.error('Style preset action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+      return null;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const savePreset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      name: form.name,
+      description: form.description.trim() || null,
+      promptFragment: form.promptFragment,
+      colorPalette: form.colors.split(',').map(color => color.trim()).filter(Boolean),
+      furnitureDensity: form.furnitureDensity === ANY ? null : form.furnitureDensity,
+      budget: form.budget === ANY ? null : form.budget,
+      ...(form.thumbnailImageId ? { thumbnailImageId: form.thumbnailImageId } : {}),
+    };
+
+    const data = await runAction(
+      'save',
+      () => fetch(editingId ? `/api/style-presets/${editingId}` : '/api/style-presets', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      }),
+      editingId ? 'Style preset updated' : 'Style preset created'
+    );
+    if (data) {
+      resetForm();
+    }
+  };
+
+  const deletePreset = (preset: StylePresetSummary) =>
+    runAction(
+      `delete-${preset.id}`,
+      () => fetch(`/api/style-presets/${preset.id}`, { method: 'DELETE' }),
+      `${preset.name} deleted`
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Palette className="mr-2 h-5 w-5" />
+          Style presets
+        </CardTitle>
+        <CardDescription>
+          Define your house style once and pick it when staging any room
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {customPresets.length > 0 && (
+          <div className="space-y-3">
+            {customPresets.map(preset => (
+              <div key={preset.id} className="flex items-start gap-4 rounded-lg border p-3">
+                {preset.thumbnailUrl && (
+                  <div className="relative h-16 w-24 shrink-0 overflow-hidden rounded">
+                    <Image src={preset.thumbnailUrl} alt={preset.name} fill className="object-cover" />
+                  </div>
+                )}
+                <div className="flex-1 space-y-1">
+                  <div className="font-medium">{preset.name}</div>
+                  {preset.description && (
+                    <div className="text-sm text-muted-foreground">{preset.description}</div>
+                  )}
+                  {preset.colorPalette.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {preset.colorPalette.map(color => (
+                        <Badge key={color} variant="outline">{color}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(preset)}
+                      disabled={pendingAction !== null}
+                    >
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deletePreset(preset)}
+                      disabled={pendingAction !== null}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          Built-in styles: {systemPresets.map(preset => preset.name).join(', ')}
+        </p>
+
+        {!canManage ? (
+          <p className="text-sm text-muted-foreground">
+            Only organization owners and admins can manage style presets.
+          </p>
+        ) : (
+          <form onSubmit={savePreset} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="preset-name">Name</Label>
+                <Input
+                  id="preset-name"
+                  placeholder="Coastal House Style"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  maxLength={60}
+                  required
+                  disabled={pendingAction !== null}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="preset-description">Description (Optional)</Label>
+                <Input
+                  id="preset-description"
+                  placeholder="Light woods, linen and blue accents"
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  maxLength={200}
+                  disabled={pendingAction !== null}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-prompt">Style instructions</Label>
+              <Textarea
+                id="preset-prompt"
+                placeholder="light oak furniture, linen upholstery, woven textures, and soft blue accents."
+                value={form.promptFragment}
+                onChange={(e) => updateForm({ promptFragment: e.target.value })}
+                maxLength={1000}
+                rows={3}
+                required
+                disabled={pendingAction !== null}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-colors">Color palette (Optional)</Label>
+              <Input
+                id="preset-colors"
+                placeholder="white, sand, navy"
+                value={form.colors}
+                onChange={(e) => updateForm({ colors: e.target.value })}
+                disabled={pendingAction !== null}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Furniture amount</Label>
+                <Select value={form.furnitureDensity} onValueChange={(value) => updateForm({ furnitureDensity: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Chosen per room</SelectItem>
+                    <SelectItem value="minimal">Minimal</SelectItem>
+                    <SelectItem value="moderate">Moderate</SelectItem>
+                    <SelectItem value="full">Full</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Budget</Label>
+                <Select value={form.budget} onValueChange={(value) => updateForm({ budget: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Chosen per room</SelectItem>
+                    <SelectItem value="economy">Economy</SelectItem>
+                    <SelectItem value="mid_range">Mid-Range</SelectItem>
+                    <SelectItem value="luxury">Luxury</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {thumbnailOptions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Preview image (Optional)</Label>
+                <p className="text-sm text-muted-foreground">Pick one of your staged rooms that shows this style</p>
+                <div className="grid grid-cols-4 gap-2 sm:grid-cols-6">
+                  {thumbnailOptions.map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => updateForm({ thumbnailImageId: form.thumbnailImageId === option.id ? null : option.id })}
+                      className={`relative aspect-video overflow-hidden rounded border-2 ${form.thumbnailImageId === option.id ? 'border-primary' : 'border-transparent'}`}
+                      disabled={pendingAction !== null}
+                    >
+                      <Image src={option.url} alt="" fill className="object-cover" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={pendingAction !== null || !form.name.trim() || form.promptFragment.trim().length < 10}
+              >
+                {pendingAction === 'save' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? 'Save changes' : 'Add preset'}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={pendingAction !== null}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
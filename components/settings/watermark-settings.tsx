@@ -0,0 +1,259 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Stamp, Trash2, Upload } from "lucide-react";
+import type { WatermarkPosition } from "@/lib/watermark";
+
+interface WatermarkSettingsSummary {
+  enabled: boolean;
+  text: string;
+  position: WatermarkPosition;
+  opacity: number;
+  badge: boolean;
+  logoUrl: string | null;
+}
+
+interface WatermarkSettingsProps {
+  canManage: boolean;
+  settings: WatermarkSettingsSummary;
+}
+
+const POSITION_LABELS: Record<WatermarkPosition, string> = {
+  top_left: 'Top left',
+  top_right: 'Top right',
+  bottom_left: 'Bottom left',
+  bottom_right: 'Bottom right',
+  center: 'Center',
+};
+
+// Where the preview label sits, mirroring applyWatermark
+const POSITION_CLASSES: Record<WatermarkPosition, string> = {
+  top_left: 'top-3 left-3',
+  top_right: 'top-3 right-3',
+  bottom_left: 'bottom-3 left-3',
+  bottom_right: 'bottom-3 right-3',
+  center: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+};
+
+export function WatermarkSettings({ canManage, settings }: WatermarkSettingsProps) {
+  const router = useRouter();
+  const logoInput = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState(settings);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const updateForm = (changes: Partial<WatermarkSettingsSummary>) => setForm(current => ({ ...current, ...changes }));
+
+  const runAction = async (key: string, request: () => Promise<Response>, successMessage: string) => {
+    setPendingAction(key);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast.success(successMessage);
+      router.refresh();
+      return data;
+    } catch (error) {
+      console.error('Watermark action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+      return null;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await runAction(
+      'save',
+      () => fetch('/api/organization/watermark', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled: form.enabled,
+          text: form.text,
+          position: form.position,
+          opacity: form.opacity,
+          badge: form.badge,
+        }),
+      }),
+      'Watermark settings saved'
+    );
+  };
+
+  const uploadLogo = async (file: File) => {
+    const body = new FormData();
+    body.append('logo', file);
+    const data = await runAction(
+      'logo',
+      () => fetch('/api/organization/watermark/logo', { method: 'PUT', body }),
+      'Logo uploaded'
+    );
+    if (data) {
+      updateForm({ logoUrl: data.logoUrl });
+    }
+  };
+
+  const removeLogo = async () => {
+    const data = await runAction(
+      'remove-logo',
+      () => fetch('/api/organization/watermark/logo', { method: 'DELETE' }),
+      'Logo removed'
+    );
+    if (data) {
+      updateForm({ logoUrl: null });
+    }
+  };
+
+  const disabled = !canManage || pendingAction !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Stamp className="mr-2 h-5 w-5" />
+          Disclosure watermark
+        </CardTitle>
+        <CardDescription>
+          Label downloaded staged photos as virtually staged, as many MLS rules require. Stored originals stay clean, and each project can opt out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={saveSettings} className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => updateForm({ enabled: e.target.checked })}
+              disabled={disabled}
+            />
+            Watermark downloads by default
+          </label>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="watermark-text">Disclosure text</Label>
+              <Input
+                id="watermark-text"
+                value={form.text}
+                onChange={(e) => updateForm({ text: e.target.value })}
+                maxLength={80}
+                required
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Position</Label>
+              <Select
+                value={form.position}
+                onValueChange={(value: WatermarkPosition) => updateForm({ position: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(POSITION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="watermark-opacity">Opacity: {Math.round(form.opacity * 100)}%</Label>
+              <input
+                id="watermark-opacity"
+                type="range"
+                min={10}
+                max={100}
+                value={Math.round(form.opacity * 100)}
+                onChange={(e) => updateForm({ opacity: parseInt(e.target.value, 10) / 100 })}
+                className="w-full"
+                disabled={disabled}
+              />
+            </div>
+            <label className="flex items-center gap-2 self-end text-sm">
+              <input
+                type="checkbox"
+                checked={form.badge}
+                onChange={(e) => updateForm({ badge: e.target.checked })}
+                disabled={disabled}
+              />
+              Show on a solid badge
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logo (Optional)</Label>
+            <div className="flex items-center gap-3">
+              {form.logoUrl && (
+                <div className="relative h-10 w-24 overflow-hidden rounded border bg-muted">
+                  <Image src={form.logoUrl} alt="Watermark logo" fill className="object-contain" />
+                </div>
+              )}
+              <input
+                ref={logoInput}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadLogo(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={() => logoInput.current?.click()} disabled={disabled}>
+                {pendingAction === 'logo' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                {form.logoUrl ? 'Replace logo' : 'Upload logo'}
+              </Button>
+              {form.logoUrl && (
+                <Button type="button" variant="ghost" size="sm" onClick={removeLogo} disabled={disabled}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Approximate preview; the exact label is drawn server-side */}
+          <div className="relative aspect-video overflow-hidden rounded-lg bg-gradient-to-br from-stone-200 to-stone-400">
+            <div
+              className={`absolute flex items-center gap-2 px-3 py-2 text-sm font-bold text-white ${POSITION_CLASSES[form.position]} ${form.badge ? 'rounded-md bg-black/65' : 'drop-shadow'}`}
+              style={{ opacity: form.opacity }}
+            >
+              {form.logoUrl && (
+                <span className="relative h-6 w-12">
+                  <Image src={form.logoUrl} alt="" fill className="object-contain" />
+                </span>
+              )}
+              {form.text}
+            </div>
+          </div>
+
+          {canManage ? (
+            <Button type="submit" disabled={pendingAction !== null || !form.text.trim()}>
+              {pendingAction === 'save' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save watermark
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Only organization owners and admins can change the watermark.
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
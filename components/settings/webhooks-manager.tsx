@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Copy, Loader2, Pause, Play, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { formatDistance } from "date-fns";
+
+interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  events: string[];
+  enabled: boolean;
+}
+
+interface WebhookDeliverySummary {
+  id: string;
+  eventType: string;
+  endpointUrl: string;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+interface WebhooksManagerProps {
+  canManage: boolean;
+  availableEvents: string[];
+  endpoints: WebhookEndpointSummary[];
+  deliveries: WebhookDeliverySummary[];
+}
+
+export function WebhooksManager({ canManage, availableEvents, endpoints, deliveries }: WebhooksManagerProps) {
+  const router = useRouter();
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<string[]>(['staging_job.completed', 'staging_job.failed']);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const runAction = async (key: string, request: () => Promise<Response>, successMessage: string) => {
+    setPendingAction(key);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast.success(successMessage);
+      router.refresh();
+      return data;
+    } catch (error) {
+      console.error('Webhook action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+      return null;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const createEndpoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await runAction(
+      'create',
+      () => fetch('/api/organization/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, events }),
+      }),
+      'Webhook endpoint added'
+    );
+    if (data) {
+      setCreatedSecret(data.secret);
+      setUrl('');
+    }
+  };
+
+  const toggleEndpoint = (endpoint: WebhookEndpointSummary) =>
+    runAction(
+      `toggle-${endpoint.id}`,
+      () => fetch(`/api/organization/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !endpoint.enabled }),
+      }),
+      endpoint.enabled ? 'Webhook endpoint paused' : 'Webhook endpoint resumed'
+    );
+
+  const deleteEndpoint = (endpoint: WebhookEndpointSummary) =>
+    runAction(
+      `delete-${endpoint.id}`,
+      () => fetch(`/api/organization/webhooks/${endpoint.id}`, { method: 'DELETE' }),
+      'Webhook endpoint deleted'
+    );
+
+  const replayDelivery = (delivery: WebhookDeliverySummary) =>
+    runAction(
+      `replay-${delivery.id}`,
+      () => fetch(`/api/organization/webhook-deliveries/${delivery.id}/replay`, { method: 'POST' }),
+      `${delivery.eventType} queued for redelivery`
+    );
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast.success('Signing secret copied');
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'succeeded':
+        return <Badge variant="default" className="bg-green-100 text-green-800">Delivered</Badge>;
+      case 'failed':
+        return <Badge variant="destructive">Failed</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Webhook className="mr-2 h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Receive signed events instead of polling. Verify the <code>Magic-Staging-Signature</code> header with your signing secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!canManage ? (
+          <p className="text-sm text-muted-foreground">
+            Only organization owners and admins can manage webhooks.
+          </p>
+        ) : (
+          <>
+            {createdSecret && (
+              <Alert>
+                <AlertDescription className="space-y-2">
+                  <p>Copy this signing secret now. It won&apos;t be shown again.</p>
+                  <div className="flex gap-2">
+                    <Input value={createdSecret} readOnly className="font-mono" />
+                    <Button variant="outline" size="icon" onClick={copySecret}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={createEndpoint} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  placeholder="https://crm.example.com/hooks/magic-staging"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  required
+                  disabled={pendingAction !== null}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {availableEvents.map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm font-mono">
+                      <input
+                        type="checkbox"
+                        checked={events.includes(event)}
+                        onChange={(e) => toggleEvent(event, e.target.checked)}
+                        disabled={pendingAction !== null}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" disabled={pendingAction !== null || !url || events.length === 0}>
+                {pendingAction === 'create' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add endpoint
+              </Button>
+            </form>
+
+            {endpoints.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Endpoint</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {endpoints.map(endpoint => (
+                    <TableRow key={endpoint.id}>
+                      <TableCell>
+                        <div className="font-mono text-sm break-all">{endpoint.url}</div>
+                        {!endpoint.enabled && <Badge variant="outline" className="mt-1">Paused</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {endpoint.events.map(event => (
+                            <Badge key={event} variant="outline">{event}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleEndpoint(endpoint)}
+                          disabled={pendingAction !== null}
+                        >
+                          {endpoint.enabled ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                          {endpoint.enabled ? 'Pause' : 'Resume'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteEndpoint(endpoint)}
+                          disabled={pendingAction !== null}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {deliveries.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Recent deliveries</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map(delivery => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>
+                          <div className="font-mono text-sm">{delivery.eventType}</div>
+                          <div className="text-xs text-muted-foreground break-all">{delivery.endpointUrl}</div>
+                        </TableCell>
+                        <TableCell>
+                          {getStatusBadge(delivery.status)}
+                          {delivery.lastError && (
+                            <div className="mt-1 text-xs text-red-600">{delivery.lastError}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {delivery.attempts}
+                          {delivery.responseStatus !== null && (
+                            <span className="text-muted-foreground"> · HTTP {delivery.responseStatus}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {formatDistance(new Date(delivery.createdAt), new Date(), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => replayDelivery(delivery)}
+                            disabled={pendingAction !== null || delivery.status === 'pending'}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Replay
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
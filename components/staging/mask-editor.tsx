@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Brush, Eraser, Loader2, Trash2 } from "lucide-react";
+
+interface MaskEditorImage {
+  id: string;
+  filename: string;
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+interface MaskEditorProps {
+  roomImage: MaskEditorImage | null; // open while set
+  maskUrl: string | null;
+  onClose: () => void;
+  onSaved: (maskUrl: string | null) => void;
+}
+
+// Painted strokes are shown in this colour over the photo and exported as
+// white; the server turns everything unpainted into black
+const BRUSH_COLOR = '#ef4444';
+
+type Tool = 'brush' | 'eraser';
+
+export function MaskEditor({ roomImage, maskUrl, onClose, onSaved }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(60);
+  const [pendingAction, setPendingAction] = useState<'save' | 'remove' | null>(null);
+
+  useEffect(() => {
+    setSize(null);
+  }, [roomImage?.id]);
+
+  // Show the saved mask once the canvas has its size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !size) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (!maskUrl) return;
+
+    const mask = new window.Image();
+    mask.crossOrigin = 'anonymous';
+    mask.onload = () => {
+      context.drawImage(mask, 0, 0, canvas.width, canvas.height);
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+      const [red, green, blue] = [1, 3, 5].map(start => parseInt(BRUSH_COLOR.slice(start, start + 2), 16));
+      for (let i = 0; i < pixels.data.length; i += 4) {
+        const painted = pixels.data[i] > 127;
+        pixels.data[i] = red;
+        pixels.data[i + 1] = green;
+        pixels.data[i + 2] = blue;
+        pixels.data[i + 3] = painted ? 255 : 0;
+      }
+      context.putImageData(pixels, 0, 0);
+    };
+    mask.onerror = () => toast.error('Could not load the saved mask');
+    mask.src = maskUrl;
+  }, [maskUrl, size]);
+
+  // Pointer position in image pixels
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const paint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = BRUSH_COLOR;
+    context.lineWidth = brushSize;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toCanvasPoint(event);
+    lastPoint.current = point;
+    paint(point, point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    const point = toCanvasPoint(event);
+    paint(lastPoint.current, point);
+    lastPoint.current = point;
+  };
+
+  const stopPainting = () => {
+    lastPoint.current = null;
+  };
+
+  const clearCanvas = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  // White strokes on a transparent background
+  const exportMask = () => new Promise<Blob | null>(resolve => {
+    const canvas = canvasRef.current;
+    if (!canvas) return resolve(null);
+
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const context = output.getContext('2d');
+    if (!context) return resolve(null);
+
+    context.drawImage(canvas, 0, 0);
+    context.globalCompositeOperation = 'source-in';
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, output.width, output.height);
+    output.toBlob(resolve, 'image/png');
+  });
+
+  const runAction = async (action: 'save' | 'remove') => {
+    if (!roomImage) return;
+    setPendingAction(action);
+    try {
+      let body: FormData | undefined;
+      if (action === 'save') {
+        const mask = await exportMask();
+        if (!mask) {
+          throw new Error('Could not export the mask');
+        }
+        body = new FormData();
+        body.append('mask', mask, 'mask.png');
+      }
+
+      const response = await fetch(`/api/room-images/${roomImage.id}/mask`, {
+        method: action === 'save' ? 'PUT' : 'DELETE',
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      onSaved(action === 'save' ? data.maskUrl : null);
+      toast.success(action === 'save' ? 'Staging area saved' : 'Mask removed; the whole room will be staged');
+      onClose();
+    } catch (error) {
+      console.error('Mask action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Dialog open={roomImage !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Choose the area to stage</DialogTitle>
+          <DialogDescription>
+            Paint over the part of {roomImage?.filename ?? 'the room'} to furnish. Everything outside it stays exactly as photographed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {roomImage && (
+          <div className="relative overflow-hidden rounded-lg">
+            <Image
+              src={roomImage.url}
+              alt={roomImage.filename}
+              width={roomImage.width ?? 1024}
+              height={roomImage.height ?? 768}
+              className="h-auto w-full select-none"
+              draggable={false}
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {size && (
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 h-full w-full cursor-crosshair touch-none opacity-50"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={stopPainting}
+                onPointerCancel={stopPainting}
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant={tool === 'brush' ? 'default' : 'outline'}
+              onClick={() => setTool('brush')}
+            >
+              <Brush className="mr-2 h-4 w-4" />
+              Brush
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={tool === 'eraser' ? 'default' : 'outline'}
+              onClick={() => setTool('eraser')}
+            >
+              <Eraser className="mr-2 h-4 w-4" />
+              Eraser
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="mask-brush-size">Size</Label>
+            <input
+              id="mask-brush-size"
+              type="range"
+              min={10}
+              max={300}
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+            />
+          </div>
+          <Button type="button" size="sm" variant="ghost" onClick={clearCanvas}>
+            Clear
+          </Button>
+        </div>
+
+        <DialogFooter>
+          {maskUrl && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => runAction('remove')}
+              disabled={pendingAction !== null}
+            >
+              {pendingAction === 'remove' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Stage whole room
+            </Button>
+          )}
+          <Button type="button" onClick={() => runAction('save')} disabled={pendingAction !== null || !size}>
+            {pendingAction === 'save' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save area
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,9 +9,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Loader2, Wand2, Palette, Home, Clock, DollarSign, CheckCircle, AlertCircle, CreditCard } from "lucide-react";
+import { Loader2, Wand2, Palette, Home, Clock, DollarSign, CheckCircle, AlertCircle, CreditCard, ThumbsUp, ThumbsDown, RotateCcw, XCircle, Brush, AlertTriangle } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
+import { CREDITS_PER_VARIATION, MAX_STAGING_VARIATIONS, getStagingCreditCost, type StagingJobType } from "@/lib/pricing";
+import {
+  DUSK_SKIES,
+  REPLACEMENT_SKIES,
+  hasRenovationChanges,
+  type DayToDuskOptions,
+  type RenovationOptions,
+  type SkyReplacementOptions,
+} from "@/lib/prompt-templates";
+import { MaskEditor } from "@/components/staging/mask-editor";
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+interface StagedCandidate {
+  id: string;
+  url: string;
+  reviewStatus: ReviewStatus;
+  qualityFlagged: boolean; // failed the architectural fidelity check
+}
 
 interface RoomImage {
   id: string;
@@ -21,6 +40,14 @@ interface RoomImage {
   width?: number;
   height?: number;
   fileSize?: number;
+  maskUrl?: string | null; // area to stage; the whole room when unset
+  // Most recent completed job, so candidates awaiting review survive a reload
+  latestStagingJob?: {
+    id: string;
+    jobType: StagingJobType;
+    processingTime: number | null;
+    stagedImages: StagedCandidate[];
+  } | null;
 }
 
 interface StagingResult {
@@ -32,8 +59,22 @@ interface StagingResult {
   error?: string;
 }
 
+// A style preset as listed by /api/style-presets
+export interface StylePresetOption {
+  id: string;
+  name: string;
+  description: string | null;
+  colorPalette: string[];
+  furnitureDensity: string | null;
+  budget: string | null;
+  isPremium: boolean;
+  thumbnailUrl: string | null;
+}
+
 interface RoomStagingInterfaceProps {
+  projectId: string;
   roomImages: RoomImage[];
+  stylePresets: StylePresetOption[];
   creditsRemaining: number;
   onStagingComplete?: (result: StagingResult) => void;
 }
@@ -41,31 +82,100 @@ interface RoomStagingInterfaceProps {
 interface StagingRequest {
   roomImageId: string;
   prompt: string;
-  style: 'modern' | 'traditional' | 'minimalist' | 'luxury' | 'contemporary' | 'rustic';
+  style: string; // style preset id
+  variations: number;
   preferences: {
     colors: string[];
     furnitureCount: 'minimal' | 'moderate' | 'full';
     budget: 'economy' | 'mid_range' | 'luxury';
   };
+  // Settings of the modes that edit the photo
+  modeOptions: {
+    day_to_dusk: DayToDuskOptions;
+    sky_replacement: SkyReplacementOptions;
+    renovation: RenovationOptions;
+  };
 }
 
 interface StagingJob {
+  jobId?: string;
+  createdAt?: string;
   roomImageId: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  jobType?: StagingJobType;
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   result?: {
-    stagedImageUrl: string;
-    processingTime: number;
+    stagedImages: StagedCandidate[];
+    processingTime: number | null;
   };
   error?: string;
+  retryable?: boolean; // false when running the same job again would fail the same way
 }
 
-const STYLES = [
-  { value: 'modern', label: 'Modern', description: 'Clean lines, neutral colors, contemporary furniture' },
-  { value: 'traditional', label: 'Traditional', description: 'Classic furniture, warm colors, elegant patterns' },
-  { value: 'minimalist', label: 'Minimalist', description: 'Few furniture pieces, lots of white space' },
-  { value: 'luxury', label: 'Luxury', description: 'High-end furniture, rich materials, premium accessories' },
-  { value: 'contemporary', label: 'Contemporary', description: 'Modern and traditional blend, current trends' },
-  { value: 'rustic', label: 'Rustic', description: 'Natural wood, warm earth tones, farmhouse style' },
+// Payload of a staging_job event from /api/staging/jobs/stream
+interface StagingJobEvent {
+  id: string;
+  jobType: StagingJobType;
+  roomImageId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  errorMessage: string | null;
+  retryable: boolean | null;
+  processingTime: number | null;
+  createdAt: string;
+  // masterUrl is the unwatermarked image, used only for previews in the app
+  stagedImages: Array<{ id: string; masterUrl: string; isApproved: boolean; reviewStatus: ReviewStatus; qualityFlagged: boolean }>;
+}
+
+function toStagingJobState(job: StagingJobEvent): StagingJob {
+  const base = { jobId: job.id, jobType: job.jobType, createdAt: job.createdAt, roomImageId: job.roomImageId };
+
+  switch (job.status) {
+    case 'completed':
+      return {
+        ...base,
+        status: 'completed',
+        result: {
+          stagedImages: job.stagedImages.map(({ id, masterUrl, reviewStatus, qualityFlagged }) => ({ id, url: masterUrl, reviewStatus, qualityFlagged })),
+          processingTime: job.processingTime,
+        },
+      };
+    case 'failed':
+      return {
+        ...base,
+        status: 'error',
+        error: job.errorMessage || 'Staging failed',
+        retryable: job.retryable ?? undefined,
+      };
+    case 'cancelled':
+      return { ...base, status: 'cancelled' };
+    default:
+      return { ...base, status: job.status };
+  }
+}
+
+const STAGING_MODES: Array<{ value: StagingJobType; label: string; action: string; description: string }> = [
+  { value: 'staging', label: 'Virtual staging', action: 'Stage Room', description: 'Furnish an empty room' },
+  { value: 'declutter', label: 'Declutter', action: 'Declutter Room', description: 'Remove furniture and belongings, then stage the result' },
+  { value: 'day_to_dusk', label: 'Day to dusk', action: 'Convert to Dusk', description: 'Turn a daytime exterior into a twilight shot' },
+  { value: 'sky_replacement', label: 'Sky replacement', action: 'Replace Sky', description: 'Swap a grey sky for a better one' },
+  { value: 'renovation', label: 'Renovation preview', action: 'Preview Renovation', description: 'Show new flooring, paint or finishes' },
+];
+
+const DUSK_SKY_LABELS: Record<typeof DUSK_SKIES[number], string> = {
+  blue_hour: 'Blue hour',
+  sunset: 'Sunset glow',
+};
+
+const REPLACEMENT_SKY_LABELS: Record<typeof REPLACEMENT_SKIES[number], string> = {
+  clear_blue: 'Clear blue',
+  scattered_clouds: 'Blue with soft clouds',
+  golden_hour: 'Golden hour',
+};
+
+const RENOVATION_FIELDS: Array<{ key: keyof RenovationOptions; label: string; placeholder: string }> = [
+  { key: 'flooring', label: 'Flooring', placeholder: 'e.g., wide-plank light oak hardwood' },
+  { key: 'wallColor', label: 'Wall color', placeholder: 'e.g., warm white' },
+  { key: 'cabinets', label: 'Cabinets', placeholder: 'e.g., matte sage green shaker' },
+  { key: 'countertops', label: 'Countertops', placeholder: 'e.g., white quartz' },
 ];
 
 const FURNITURE_COUNT = [
@@ -80,20 +190,113 @@ const BUDGETS = [
   { value: 'luxury', label: 'Luxury', description: 'High-end, designer quality' },
 ];
 
-export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingComplete }: RoomStagingInterfaceProps) {
+export function RoomStagingInterface({ projectId, roomImages, stylePresets, creditsRemaining, onStagingComplete }: RoomStagingInterfaceProps) {
   const [selectedImage, setSelectedImage] = useState<RoomImage | null>(null);
   const [stagingRequest, setStagingRequest] = useState<StagingRequest>({
     roomImageId: '',
     prompt: '',
-    style: 'modern',
+    style: stylePresets[0]?.id ?? 'modern',
+    variations: 1,
     preferences: {
       colors: [],
       furnitureCount: 'moderate',
       budget: 'mid_range',
     },
+    modeOptions: {
+      day_to_dusk: { sky: 'blue_hour', interiorLights: true },
+      sky_replacement: { sky: 'clear_blue' },
+      renovation: {},
+    },
   });
   const [colorInput, setColorInput] = useState('');
-  const [stagingJobs, setStagingJobs] = useState<Record<string, StagingJob>>({});
+  // Mode picked for each room image; rooms default to staging
+  const [roomModes, setRoomModes] = useState<Record<string, StagingJobType>>({});
+  const getRoomMode = (roomImageId: string) => roomModes[roomImageId] ?? 'staging';
+  const modesInUse = new Set(roomImages.map(roomImage => getRoomMode(roomImage.id)));
+  // Saved masks by room image id, updated as they are drawn or removed
+  const [maskUrls, setMaskUrls] = useState<Record<string, string | null>>(() =>
+    Object.fromEntries(roomImages.map(roomImage => [roomImage.id, roomImage.maskUrl ?? null]))
+  );
+  const [maskEditorImage, setMaskEditorImage] = useState<RoomImage | null>(null);
+  const [stagingJobs, setStagingJobs] = useState<Record<string, StagingJob>>(() => {
+    const jobs: Record<string, StagingJob> = {};
+    for (const roomImage of roomImages) {
+      const latest = roomImage.latestStagingJob;
+      // Decluttered results stay visible so they can be staged next
+      if (latest && (latest.jobType === 'declutter' || latest.stagedImages.some(image => image.reviewStatus === 'pending'))) {
+        jobs[roomImage.id] = {
+          roomImageId: roomImage.id,
+          jobType: latest.jobType,
+          status: 'completed',
+          result: { stagedImages: latest.stagedImages, processingTime: latest.processingTime },
+        };
+      }
+    }
+    return jobs;
+  });
+  // Staging a decluttered result is always a staging job
+  const stagingCreditCost = getStagingCreditCost(stagingRequest.variations);
+
+  // Jobs started from this tab; only these raise toasts when they settle
+  const startedJobIds = useRef(new Set<string>());
+
+  const handleJobEvent = useRef<(job: StagingJobEvent) => void>(() => {});
+  handleJobEvent.current = (job) => {
+    setStagingJobs(prev => {
+      const current = prev[job.roomImageId];
+      // An older job settling must not replace a newer one for the same room
+      if (current?.jobId && current.jobId !== job.id && current.createdAt && job.createdAt < current.createdAt) {
+        return prev;
+      }
+      return { ...prev, [job.roomImageId]: toStagingJobState(job) };
+    });
+
+    if (!startedJobIds.current.has(job.id)) return;
+
+    if (job.status === 'completed') {
+      startedJobIds.current.delete(job.id);
+      const processingTime = job.processingTime ?? 0;
+      const modeLabel = STAGING_MODES.find(mode => mode.value === job.jobType)?.label ?? 'Staging';
+      toast.success(`${modeLabel} finished in ${(processingTime / 1000).toFixed(1)}s!`);
+      onStagingComplete?.({
+        success: true,
+        stagingJobId: job.id,
+        stagedImageUrl: job.stagedImages.find(image => image.reviewStatus === 'approved')?.masterUrl,
+        processingTime,
+        creditsRemaining: creditsRemaining - getStagingCreditCost(job.stagedImages.length, job.jobType),
+      });
+    } else if (job.status === 'failed') {
+      startedJobIds.current.delete(job.id);
+      toast.error(job.errorMessage || 'Staging failed');
+    } else if (job.status === 'cancelled') {
+      startedJobIds.current.delete(job.id);
+    }
+  };
+
+  // Status changes for every job in the project, including ones started by
+  // teammates or before a reload
+  useEffect(() => {
+    const source = new EventSource(`/api/staging/jobs/stream?projectId=${encodeURIComponent(projectId)}`);
+    source.addEventListener('staging_job', (event) => {
+      handleJobEvent.current(JSON.parse((event as MessageEvent<string>).data));
+    });
+    return () => source.close();
+  }, [projectId]);
+
+  // Picking a preset loads its palette, furniture amount and budget into the
+  // form, where they can still be adjusted for this room
+  const selectStylePreset = (presetId: string) => {
+    const preset = stylePresets.find(p => p.id === presetId);
+    setStagingRequest(prev => ({
+      ...prev,
+      style: presetId,
+      preferences: preset ? {
+        colors: preset.colorPalette,
+        furnitureCount: (preset.furnitureDensity as StagingRequest['preferences']['furnitureCount']) ?? prev.preferences.furnitureCount,
+        budget: (preset.budget as StagingRequest['preferences']['budget']) ?? prev.preferences.budget,
+      } : prev.preferences,
+    }));
+  };
 
   const addColor = () => {
     if (colorInput.trim() && !stagingRequest.preferences.colors.includes(colorInput.trim())) {
@@ -118,20 +321,65 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
     }));
   };
 
-  const startStaging = async (roomImage: RoomImage) => {
-    if (creditsRemaining < 1) {
+  const updateModeOptions = <Mode extends keyof StagingRequest['modeOptions']>(
+    mode: Mode,
+    changes: Partial<StagingRequest['modeOptions'][Mode]>
+  ) => {
+    setStagingRequest(prev => ({
+      ...prev,
+      modeOptions: { ...prev.modeOptions, [mode]: { ...prev.modeOptions[mode], ...changes } },
+    }));
+  };
+
+  // Current form settings for a mode, as sent when staging or re-staging a
+  // room. Rooms with a saved mask only have that area changed.
+  const getStagingParameters = (roomImageId: string, jobType: StagingJobType) => ({
+    prompt: stagingRequest.prompt.trim() || undefined,
+    variations: stagingRequest.variations,
+    ...(jobType === 'staging' ? {
+      style: stagingRequest.style,
+      preferences: {
+        colors: stagingRequest.preferences.colors.length > 0 ? stagingRequest.preferences.colors : undefined,
+        furnitureCount: stagingRequest.preferences.furnitureCount,
+        budget: stagingRequest.preferences.budget,
+      },
+    } : {}),
+    modeOptions: jobType === 'day_to_dusk' || jobType === 'sky_replacement' || jobType === 'renovation'
+      ? stagingRequest.modeOptions[jobType]
+      : undefined,
+    useMask: Boolean(maskUrls[roomImageId]),
+  });
+
+  const trackQueuedJob = (roomImageId: string, stagingJobId: string, jobType?: StagingJobType) => {
+    startedJobIds.current.add(stagingJobId);
+    setStagingJobs(prev => prev[roomImageId]?.jobId === stagingJobId ? prev : {
+      ...prev,
+      [roomImageId]: {
+        jobId: stagingJobId,
+        jobType,
+        createdAt: new Date().toISOString(),
+        roomImageId,
+        status: 'pending',
+      },
+    });
+  };
+
+  // sourceImageId stages a decluttered result of the room instead of its photo
+  const startStaging = async (roomImage: RoomImage, sourceImageId?: string) => {
+    const jobType: StagingJobType = sourceImageId ? 'staging' : getRoomMode(roomImage.id);
+    if (creditsRemaining < getStagingCreditCost(stagingRequest.variations, jobType)) {
       toast.error('Insufficient credits. Please purchase more credits to continue.');
       return;
     }
 
     const jobKey = roomImage.id;
     
-    // Update job status to processing
+    // Update job status to pending until the worker picks it up
     setStagingJobs(prev => ({
       ...prev,
       [jobKey]: {
         roomImageId: roomImage.id,
-        status: 'processing',
+        status: 'pending',
       },
     }));
 
@@ -143,13 +391,9 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
         },
         body: JSON.stringify({
           roomImageId: roomImage.id,
-          prompt: stagingRequest.prompt.trim() || undefined,
-          style: stagingRequest.style,
-          preferences: {
-            colors: stagingRequest.preferences.colors.length > 0 ? stagingRequest.preferences.colors : undefined,
-            furnitureCount: stagingRequest.preferences.furnitureCount,
-            budget: stagingRequest.preferences.budget,
-          },
+          jobType,
+          sourceImageId,
+          ...getStagingParameters(roomImage.id, jobType),
         }),
       });
 
@@ -158,23 +402,10 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
         throw new Error(errorData.error || 'Staging failed');
       }
 
-      const result = await response.json();
+      const queued = await response.json();
 
-      // Update job status to completed
-      setStagingJobs(prev => ({
-        ...prev,
-        [jobKey]: {
-          roomImageId: roomImage.id,
-          status: 'completed',
-          result: {
-            stagedImageUrl: result.stagedImageUrl,
-            processingTime: result.processingTime,
-          },
-        },
-      }));
-
-      toast.success(`Room staged successfully in ${(result.processingTime / 1000).toFixed(1)}s!`);
-      onStagingComplete?.(result);
+      // The job runs on the staging worker; the event stream reports progress
+      trackQueuedJob(roomImage.id, queued.stagingJobId, jobType);
 
     } catch (error) {
       console.error('Staging failed:', error);
@@ -193,6 +424,79 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
     }
   };
 
+  // Retry, re-stage or cancel the room's current job
+  const runJobAction = async (roomImageId: string, action: 'retry' | 'restage' | 'cancel') => {
+    const jobId = stagingJobs[roomImageId]?.jobId;
+    if (!jobId) return;
+
+    try {
+      const response = await fetch(`/api/staging/jobs/${jobId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: action === 'restage' ? JSON.stringify(getStagingParameters(roomImageId, stagingJobs[roomImageId]?.jobType ?? 'staging')) : undefined,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      if (action === 'cancel') {
+        setStagingJobs(prev => ({
+          ...prev,
+          [roomImageId]: { ...prev[roomImageId], status: 'cancelled' },
+        }));
+        toast.success('Staging cancelled and credits returned');
+      } else {
+        trackQueuedJob(roomImageId, data.stagingJobId);
+      }
+    } catch (error) {
+      console.error(`Staging ${action} failed:`, error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+    }
+  };
+
+  const reviewCandidate = async (roomImageId: string, stagedImageId: string, reviewStatus: ReviewStatus) => {
+    try {
+      const response = await fetch(`/api/staged-images/${stagedImageId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reviewStatus }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Review failed');
+      }
+
+      setStagingJobs(prev => {
+        const job = prev[roomImageId];
+        if (!job?.result) return prev;
+        return {
+          ...prev,
+          [roomImageId]: {
+            ...job,
+            result: {
+              ...job.result,
+              stagedImages: job.result.stagedImages.map(image =>
+                image.id === stagedImageId ? { ...image, reviewStatus } : image
+              ),
+            },
+          },
+        };
+      });
+
+      toast.success(reviewStatus === 'approved' ? 'Variation approved' : 'Variation rejected');
+    } catch (error) {
+      console.error('Review failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Review failed');
+    }
+  };
+
   const getJobStatus = (roomImageId: string) => {
     return stagingJobs[roomImageId];
   };
@@ -209,7 +513,7 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
                 Available Credits
               </CardTitle>
               <CardDescription>
-                Each room staging uses 1 credit
+                Each variation uses 1 or 2 credits depending on the room&apos;s mode
               </CardDescription>
             </div>
             <div className="flex items-center gap-3">
@@ -237,109 +541,221 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
             Staging Configuration
           </CardTitle>
           <CardDescription>
-            Configure the style and preferences for virtual staging
+            Configure the settings for the modes picked for your rooms
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Style Selection */}
+          {modesInUse.has('staging') && (
+            <div className="space-y-3">
+              <Label>Staging Style</Label>
+              <Select
+                value={stagingRequest.style}
+                onValueChange={selectStylePreset}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {stylePresets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      <div className="flex items-center gap-3">
+                        {preset.thumbnailUrl && (
+                          <Image
+                            src={preset.thumbnailUrl}
+                            alt=""
+                            width={40}
+                            height={40}
+                            className="h-10 w-10 rounded object-cover"
+                          />
+                        )}
+                        <div className="space-y-1">
+                          <div className="font-medium">
+                            {preset.name}
+                            {preset.isPremium && <Badge variant="outline" className="ml-2">Premium</Badge>}
+                          </div>
+                          {preset.description && (
+                            <div className="text-sm text-muted-foreground">{preset.description}</div>
+                          )}
+                        </div>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Variations */}
           <div className="space-y-3">
-            <Label>Staging Style</Label>
+            <Label>Variations</Label>
             <Select
-              value={stagingRequest.style}
-              onValueChange={(value: any) => setStagingRequest(prev => ({ ...prev, style: value }))}
+              value={String(stagingRequest.variations)}
+              onValueChange={(value) => setStagingRequest(prev => ({ ...prev, variations: parseInt(value, 10) }))}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {STYLES.map(style => (
-                  <SelectItem key={style.value} value={style.value}>
-                    <div className="space-y-1">
-                      <div className="font-medium">{style.label}</div>
-                      <div className="text-sm text-muted-foreground">{style.description}</div>
-                    </div>
+                {Array.from({ length: MAX_STAGING_VARIATIONS }, (_, index) => index + 1).map(count => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count === 1 ? '1 variation' : `${count} variations — pick the best`}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
-          {/* Color Preferences */}
-          <div className="space-y-3">
-            <Label>Color Preferences (Optional)</Label>
-            <div className="flex space-x-2">
-              <Input
-                placeholder="e.g., navy blue, white, gold"
-                value={colorInput}
-                onChange={(e) => setColorInput(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && addColor()}
-              />
-              <Button type="button" variant="outline" onClick={addColor}>
-                Add
-              </Button>
-            </div>
-            {stagingRequest.preferences.colors.length > 0 && (
-              <div className="flex flex-wrap gap-2">
-                {stagingRequest.preferences.colors.map(color => (
-                  <Badge key={color} variant="secondary" className="cursor-pointer" onClick={() => removeColor(color)}>
-                    {color} ×
-                  </Badge>
-                ))}
+          {modesInUse.has('staging') && (
+            <>
+              {/* Color Preferences */}
+              <div className="space-y-3">
+                <Label>Color Preferences (Optional)</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    placeholder="e.g., navy blue, white, gold"
+                    value={colorInput}
+                    onChange={(e) => setColorInput(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && addColor()}
+                  />
+                  <Button type="button" variant="outline" onClick={addColor}>
+                    Add
+                  </Button>
+                </div>
+                {stagingRequest.preferences.colors.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {stagingRequest.preferences.colors.map(color => (
+                      <Badge key={color} variant="secondary" className="cursor-pointer" onClick={() => removeColor(color)}>
+                        {color} ×
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
 
-          {/* Furniture Amount */}
-          <div className="space-y-3">
-            <Label>Furniture Amount</Label>
-            <Select
-              value={stagingRequest.preferences.furnitureCount}
-              onValueChange={(value: any) => setStagingRequest(prev => ({
-                ...prev,
-                preferences: { ...prev.preferences, furnitureCount: value }
-              }))}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {FURNITURE_COUNT.map(option => (
-                  <SelectItem key={option.value} value={option.value}>
-                    <div className="space-y-1">
-                      <div className="font-medium">{option.label}</div>
-                      <div className="text-sm text-muted-foreground">{option.description}</div>
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+              {/* Furniture Amount */}
+              <div className="space-y-3">
+                <Label>Furniture Amount</Label>
+                <Select
+                  value={stagingRequest.preferences.furnitureCount}
+                  onValueChange={(value: any) => setStagingRequest(prev => ({
+                    ...prev,
+                    preferences: { ...prev.preferences, furnitureCount: value }
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FURNITURE_COUNT.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        <div className="space-y-1">
+                          <div className="font-medium">{option.label}</div>
+                          <div className="text-sm text-muted-foreground">{option.description}</div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-          {/* Budget Level */}
-          <div className="space-y-3">
-            <Label>Budget Level</Label>
-            <Select
-              value={stagingRequest.preferences.budget}
-              onValueChange={(value: any) => setStagingRequest(prev => ({
-                ...prev,
-                preferences: { ...prev.preferences, budget: value }
-              }))}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {BUDGETS.map(option => (
-                  <SelectItem key={option.value} value={option.value}>
-                    <div className="space-y-1">
-                      <div className="font-medium">{option.label}</div>
-                      <div className="text-sm text-muted-foreground">{option.description}</div>
-                    </div>
-                  </SelectItem>
+              {/* Budget Level */}
+              <div className="space-y-3">
+                <Label>Budget Level</Label>
+                <Select
+                  value={stagingRequest.preferences.budget}
+                  onValueChange={(value: any) => setStagingRequest(prev => ({
+                    ...prev,
+                    preferences: { ...prev.preferences, budget: value }
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUDGETS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        <div className="space-y-1">
+                          <div className="font-medium">{option.label}</div>
+                          <div className="text-sm text-muted-foreground">{option.description}</div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {/* Day to Dusk */}
+          {modesInUse.has('day_to_dusk') && (
+            <div className="space-y-3">
+              <Label>Twilight Sky</Label>
+              <Select
+                value={stagingRequest.modeOptions.day_to_dusk.sky}
+                onValueChange={(value: DayToDuskOptions['sky']) => updateModeOptions('day_to_dusk', { sky: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DUSK_SKIES.map(sky => (
+                    <SelectItem key={sky} value={sky}>{DUSK_SKY_LABELS[sky]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={stagingRequest.modeOptions.day_to_dusk.interiorLights}
+                  onChange={(e) => updateModeOptions('day_to_dusk', { interiorLights: e.target.checked })}
+                />
+                Turn on the interior lights
+              </label>
+            </div>
+          )}
+
+          {/* Sky Replacement */}
+          {modesInUse.has('sky_replacement') && (
+            <div className="space-y-3">
+              <Label>Replacement Sky</Label>
+              <Select
+                value={stagingRequest.modeOptions.sky_replacement.sky}
+                onValueChange={(value: SkyReplacementOptions['sky']) => updateModeOptions('sky_replacement', { sky: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPLACEMENT_SKIES.map(sky => (
+                    <SelectItem key={sky} value={sky}>{REPLACEMENT_SKY_LABELS[sky]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Renovation Preview */}
+          {modesInUse.has('renovation') && (
+            <div className="space-y-3">
+              <Label>Renovation</Label>
+              <p className="text-sm text-muted-foreground">Describe at least one change; empty fields stay as they are</p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {RENOVATION_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`renovation-${field.key}`} className="text-xs">{field.label}</Label>
+                    <Input
+                      id={`renovation-${field.key}`}
+                      placeholder={field.placeholder}
+                      value={stagingRequest.modeOptions.renovation[field.key] ?? ''}
+                      onChange={(e) => updateModeOptions('renovation', { [field.key]: e.target.value })}
+                      maxLength={200}
+                    />
+                  </div>
                 ))}
-              </SelectContent>
-            </Select>
-          </div>
+              </div>
+            </div>
+          )}
 
           {/* Custom Prompt */}
           <div className="space-y-3">
@@ -374,6 +790,12 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
               {roomImages.map(roomImage => {
                 const jobStatus = getJobStatus(roomImage.id);
+                const roomMode = getRoomMode(roomImage.id);
+                const roomModeInfo = STAGING_MODES.find(mode => mode.value === roomMode) ?? STAGING_MODES[0];
+                const roomCreditCost = getStagingCreditCost(stagingRequest.variations, roomMode);
+                // Retries and re-stages keep the mode of the job they repeat
+                const jobCreditCost = getStagingCreditCost(stagingRequest.variations, jobStatus?.jobType ?? roomMode);
+                const missingRenovation = roomMode === 'renovation' && !hasRenovationChanges(stagingRequest.modeOptions.renovation);
                 
                 return (
                   <Card key={roomImage.id} className="overflow-hidden">
@@ -386,8 +808,14 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
                       />
                       
                       {/* Status Overlay */}
-                      {jobStatus && (
+                      {jobStatus && jobStatus.status !== 'cancelled' && (
                         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
+                          {jobStatus.status === 'pending' && (
+                            <div className="text-white text-center">
+                              <Clock className="h-8 w-8 mx-auto mb-2" />
+                              <p className="text-sm">Queued...</p>
+                            </div>
+                          )}
                           {jobStatus.status === 'processing' && (
                             <div className="text-white text-center">
                               <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
@@ -414,38 +842,175 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
                       <div className="space-y-3">
                         <div>
                           <p className="font-medium text-sm truncate">{roomImage.filename}</p>
-                          {roomImage.roomType && (
-                            <Badge variant="outline" className="mt-1 text-xs">
-                              {roomImage.roomType.replace('_', ' ')}
-                            </Badge>
-                          )}
+                          <div className="mt-1 flex flex-wrap items-center gap-1">
+                            {roomImage.roomType && (
+                              <Badge variant="outline" className="text-xs">
+                                {roomImage.roomType.replace('_', ' ')}
+                              </Badge>
+                            )}
+                            {maskUrls[roomImage.id] && (
+                              <Badge variant="secondary" className="text-xs">
+                                Selected area only
+                              </Badge>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="ml-auto h-7 px-2 text-xs"
+                              onClick={() => setMaskEditorImage(roomImage)}
+                            >
+                              <Brush className="mr-1 h-3 w-3" />
+                              {maskUrls[roomImage.id] ? 'Edit area' : 'Select area'}
+                            </Button>
+                          </div>
                         </div>
+
+                        <Select
+                          value={roomMode}
+                          onValueChange={(value: StagingJobType) => setRoomModes(prev => ({ ...prev, [roomImage.id]: value }))}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STAGING_MODES.map(mode => (
+                              <SelectItem key={mode.value} value={mode.value}>
+                                <div className="space-y-1">
+                                  <div className="font-medium">
+                                    {mode.label} · {CREDITS_PER_VARIATION[mode.value]} {CREDITS_PER_VARIATION[mode.value] === 1 ? 'credit' : 'credits'}
+                                  </div>
+                                  <div className="text-sm text-muted-foreground">{mode.description}</div>
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         
                         {jobStatus?.result ? (
                           <div className="space-y-2">
                             <p className="text-xs text-green-600 flex items-center">
                               <Clock className="mr-1 h-3 w-3" />
-                              Completed in {(jobStatus.result.processingTime / 1000).toFixed(1)}s
+                              {jobStatus.result.processingTime !== null
+                                ? `Completed in ${(jobStatus.result.processingTime / 1000).toFixed(1)}s`
+                                : 'Completed'}
                             </p>
-                            <div className="relative aspect-video rounded-lg overflow-hidden">
-                              <Image
-                                src={jobStatus.result.stagedImageUrl}
-                                alt="Staged room"
-                                fill
-                                className="object-cover"
-                              />
+                            <div className={jobStatus.result.stagedImages.length > 1 ? "grid grid-cols-2 gap-2" : undefined}>
+                              {jobStatus.result.stagedImages.map((candidate, index) => (
+                                <div key={candidate.id} className="space-y-1">
+                                  <div className={`relative aspect-video rounded-lg overflow-hidden ${candidate.reviewStatus === 'rejected' ? 'opacity-40' : ''}`}>
+                                    <Image
+                                      src={candidate.url}
+                                      alt={`Staged room variation ${index + 1}`}
+                                      fill
+                                      className="object-cover"
+                                    />
+                                  </div>
+                                  {candidate.qualityFlagged && (
+                                    <p className="flex items-center text-xs text-amber-600" title="Walls, windows or framing may differ from the original photo">
+                                      <AlertTriangle className="mr-1 h-3 w-3" />
+                                      Check layout
+                                    </p>
+                                  )}
+                                  {candidate.reviewStatus === 'pending' ? (
+                                    <div className="flex gap-1">
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-7 flex-1 px-1"
+                                        onClick={() => reviewCandidate(roomImage.id, candidate.id, 'approved')}
+                                      >
+                                        <ThumbsUp className="h-3 w-3" />
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-7 flex-1 px-1"
+                                        onClick={() => reviewCandidate(roomImage.id, candidate.id, 'rejected')}
+                                      >
+                                        <ThumbsDown className="h-3 w-3" />
+                                      </Button>
+                                    </div>
+                                  ) : (
+                                    <Badge variant={candidate.reviewStatus === 'approved' ? 'default' : 'secondary'} className="text-xs">
+                                      {candidate.reviewStatus === 'approved' ? 'Approved' : 'Rejected'}
+                                    </Badge>
+                                  )}
+                                  {jobStatus.jobType === 'declutter' && candidate.reviewStatus !== 'rejected' && (
+                                    <Button
+                                      size="sm"
+                                      className="h-7 w-full px-1 text-xs"
+                                      onClick={() => startStaging(roomImage, candidate.id)}
+                                      disabled={creditsRemaining < stagingCreditCost}
+                                    >
+                                      <Wand2 className="mr-1 h-3 w-3" />
+                                      Stage this
+                                    </Button>
+                                  )}
+                                </div>
+                              ))}
                             </div>
+                            <Button
+                              onClick={() => runJobAction(roomImage.id, 'restage')}
+                              disabled={creditsRemaining < jobCreditCost}
+                              variant="outline"
+                              className="w-full"
+                              size="sm"
+                            >
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                              Re-stage with current settings
+                            </Button>
                           </div>
                         ) : jobStatus?.error ? (
-                          <p className="text-xs text-red-600">{jobStatus.error}</p>
+                          <div className="space-y-2">
+                            <p className="text-xs text-red-600">{jobStatus.error}</p>
+                            {jobStatus.jobId && (
+                              <div className="flex gap-2">
+                                <Button
+                                  onClick={() => runJobAction(roomImage.id, 'retry')}
+                                  disabled={creditsRemaining < jobCreditCost}
+                                  variant={jobStatus.retryable === false ? 'outline' : 'default'}
+                                  className="flex-1"
+                                  size="sm"
+                                >
+                                  <RotateCcw className="mr-2 h-4 w-4" />
+                                  Retry
+                                </Button>
+                                {/* Blocked or rejected inputs fail the same way again, so steer towards new settings */}
+                                <Button
+                                  onClick={() => runJobAction(roomImage.id, 'restage')}
+                                  disabled={creditsRemaining < jobCreditCost}
+                                  variant={jobStatus.retryable === false ? 'default' : 'outline'}
+                                  className="flex-1"
+                                  size="sm"
+                                >
+                                  Re-stage
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        ) : jobStatus?.status === 'pending' && jobStatus.jobId ? (
+                          <div className="flex gap-2">
+                            <Button disabled className="flex-1" size="sm">
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Queued...
+                            </Button>
+                            <Button
+                              onClick={() => runJobAction(roomImage.id, 'cancel')}
+                              variant="outline"
+                              size="sm"
+                            >
+                              <XCircle className="mr-2 h-4 w-4" />
+                              Cancel
+                            </Button>
+                          </div>
                         ) : (
                           <Button
                             onClick={() => startStaging(roomImage)}
-                            disabled={creditsRemaining < 1 || jobStatus?.status === 'processing'}
+                            disabled={creditsRemaining < roomCreditCost || missingRenovation || jobStatus?.status === 'pending' || jobStatus?.status === 'processing'}
                             className="w-full"
                             size="sm"
                           >
-                            {jobStatus?.status === 'processing' ? (
+                            {jobStatus?.status === 'pending' || jobStatus?.status === 'processing' ? (
                               <>
                                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                                 Staging...
@@ -453,7 +1018,7 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
                             ) : (
                               <>
                                 <Wand2 className="mr-2 h-4 w-4" />
-                                Stage Room (1 credit)
+                                {roomModeInfo.action} ({roomCreditCost} {roomCreditCost === 1 ? 'credit' : 'credits'})
                               </>
                             )}
                           </Button>
@@ -467,6 +1032,17 @@ export function RoomStagingInterface({ roomImages, creditsRemaining, onStagingCo
           )}
         </CardContent>
       </Card>
+
+      <MaskEditor
+        roomImage={maskEditorImage}
+        maskUrl={maskEditorImage ? maskUrls[maskEditorImage.id] ?? null : null}
+        onClose={() => setMaskEditorImage(null)}
+        onSaved={(maskUrl) => {
+          if (maskEditorImage) {
+            setMaskUrls(prev => ({ ...prev, [maskEditorImage.id]: maskUrl }));
+          }
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
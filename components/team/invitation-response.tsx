@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface InvitationResponseProps {
+  token: string;
+  canAccept: boolean;
+}
+
+export function InvitationResponse({ token, canAccept }: InvitationResponseProps) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] = useState<'accept' | 'decline' | null>(null);
+
+  const respond = async (action: 'accept' | 'decline') => {
+    setPendingAction(action);
+    try {
+      const response = await fetch(`/api/invitations/${token}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to respond to invitation');
+      }
+
+      if (action === 'accept') {
+        toast.success(`You joined ${data.organization.name}`);
+        router.push('/dashboard');
+      } else {
+        toast.success('Invitation declined');
+        router.refresh();
+      }
+    } catch (error) {
+      console.error('Invitation response failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to invitation');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {canAccept && (
+        <Button className="flex-1" onClick={() => respond('accept')} disabled={pendingAction !== null}>
+          {pendingAction === 'accept' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Accept
+        </Button>
+      )}
+      <Button
+        variant="outline"
+        className="flex-1"
+        onClick={() => respond('decline')}
+        disabled={pendingAction !== null}
+      >
+        {pendingAction === 'decline' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Decline
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2, Mail, UserMinus, UserPlus, X } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { canManageMember, hasPermission } from "@/lib/permissions";
+
+interface Member {
+  id: string;
+  role: string;
+  joinedAt: Date;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: Date;
+}
+
+interface TeamManagementClientProps {
+  organizationName: string;
+  currentUserId: string;
+  currentRole: string;
+  members: Member[];
+  invitations: PendingInvitation[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export function TeamManagementClient({
+  organizationName,
+  currentUserId,
+  currentRole,
+  members,
+  invitations,
+}: TeamManagementClientProps) {
+  const router = useRouter();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<'admin' | 'member'>('member');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const canInvite = hasPermission(currentRole, 'members:invite');
+  const canChangeRoles = hasPermission(currentRole, 'members:update_role');
+
+  const runAction = async (key: string, request: () => Promise<Response>, successMessage: string) => {
+    setPendingAction(key);
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Request failed');
+      }
+      toast.success(successMessage);
+      router.refresh();
+      return true;
+    } catch (error) {
+      console.error('Team action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const sendInvitation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sent = await runAction(
+      'invite',
+      () => fetch('/api/organization/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      }),
+      `Invitation sent to ${inviteEmail}`
+    );
+    if (sent) setInviteEmail('');
+  };
+
+  const changeRole = (member: Member, role: string) =>
+    runAction(
+      `role-${member.id}`,
+      () => fetch(`/api/organization/members/${member.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      }),
+      `${member.user.name || member.user.email} is now ${ROLE_LABELS[role].toLowerCase()}`
+    );
+
+  const removeMember = async (member: Member) => {
+    const isSelf = member.user.id === currentUserId;
+    const removed = await runAction(
+      `remove-${member.id}`,
+      () => fetch(`/api/organization/members/${member.id}`, { method: 'DELETE' }),
+      isSelf ? `You left ${organizationName}` : `${member.user.name || member.user.email} was removed`
+    );
+    if (removed && isSelf) router.push('/dashboard');
+  };
+
+  const revokeInvitation = (invitation: PendingInvitation) =>
+    runAction(
+      `revoke-${invitation.id}`,
+      () => fetch(`/api/organization/invitations/${invitation.id}`, { method: 'DELETE' }),
+      `Invitation for ${invitation.email} revoked`
+    );
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Team</h1>
+        <p className="text-muted-foreground">
+          Manage who has access to {organizationName}
+        </p>
+      </div>
+
+      {canInvite && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <UserPlus className="mr-2 h-5 w-5" />
+              Invite a teammate
+            </CardTitle>
+            <CardDescription>
+              They&apos;ll get an email with a link to join
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={sendInvitation} className="flex flex-col gap-3 sm:flex-row">
+              <Input
+                type="email"
+                placeholder="teammate@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+                disabled={pendingAction !== null}
+              />
+              <Select
+                value={inviteRole}
+                onValueChange={(value: 'admin' | 'member') => setInviteRole(value)}
+                disabled={!canChangeRoles}
+              >
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="member">Member</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={pendingAction !== null}>
+                {pendingAction === 'invite' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Mail className="mr-2 h-4 w-4" />
+                )}
+                Send invite
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            {members.length} {members.length === 1 ? 'person' : 'people'} in this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map(member => {
+                const isSelf = member.user.id === currentUserId;
+                const canRemove = isSelf || canManageMember(currentRole, member.role);
+
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {member.user.name || member.user.email}
+                        {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </div>
+                      {member.user.name && (
+                        <div className="text-sm text-muted-foreground">{member.user.email}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canChangeRoles ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => changeRole(member, role)}
+                          disabled={pendingAction !== null}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant={member.role === 'member' ? 'secondary' : 'default'}>
+                          {ROLE_LABELS[member.role] ?? member.role}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistance(new Date(member.joinedAt), new Date(), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canRemove && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMember(member)}
+                          disabled={pendingAction !== null}
+                        >
+                          <UserMinus className="mr-2 h-4 w-4" />
+                          {isSelf ? 'Leave' : 'Remove'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {canInvite && invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map(invitation => (
+                  <TableRow key={invitation.id}>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ROLE_LABELS[invitation.role] ?? invitation.role}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistance(new Date(invitation.expiresAt), new Date(), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeInvitation(invitation)}
+                        disabled={pendingAction !== null}
+                      >
+                        <X className="mr-2 h-4 w-4" />
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import type { ApiKeyScope } from '@/lib/permissions';
+
+const API_KEY_PREFIX = 'msk_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// lastUsedAt is only written when it is older than this, so a busy
+// integration doesn't update the row on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiKeyError extends Error {
+  constructor(message: string = 'Invalid API key') {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// The plain key is returned once, here; only its hash is stored
+export async function createApiKey(params: {
+  organizationId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+}) {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await db.apiKey.create({
+    data: {
+      organizationId: params.organizationId,
+      name: params.name,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      scopes: params.scopes,
+      createdBy: params.createdBy,
+    },
+  });
+
+  return { apiKey, key };
+}
+
+export async function revokeApiKey(organizationId: string, apiKeyId: string): Promise<boolean> {
+  const revoked = await db.apiKey.updateMany({
+    where: { id: apiKeyId, organizationId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count > 0;
+}
+
+export async function listApiKeys(organizationId: string) {
+  return db.apiKey.findMany({
+    where: { organizationId, revokedAt: null },
+    select: {
+      id: true,
+      name: true,
+      keyPrefix: true,
+      scopes: true,
+      lastUsedAt: true,
+      createdAt: true,
+      creator: { select: { name: true, email: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export function getBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Resolve a bearer token to its organization. Requests act as the user who
+// created the key, so the key stops working once they leave the organization.
+export async function authenticateApiKey(key: string) {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    throw new ApiKeyError();
+  }
+
+  const apiKey = await db.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+    include: {
+      organization: true,
+      creator: { select: { id: true, email: true, name: true, image: true } },
+    },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    throw new ApiKeyError();
+  }
+
+  const membership = await db.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId: apiKey.organizationId, userId: apiKey.createdBy } },
+    select: { id: true },
+  });
+  if (!membership) {
+    throw new ApiKeyError('API key is no longer valid');
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return apiKey;
+}
@@ -1,6 +1,9 @@
 import { auth, User } from "@/lib/auth";
-import { headers } from "next/headers";
+import { cookies, headers } from "next/headers";
 import { db } from "@/lib/db";
+import { authenticateApiKey, getBearerToken } from "@/lib/api-keys";
+import { ACTIVE_ORGANIZATION_COOKIE } from "@/lib/organizations";
+import { assertPermission, assertScope, type Permission } from "@/lib/permissions";
 
 export async function getCurrentUser(): Promise<User | null> {
   try {
@@ -17,11 +20,26 @@ export async function getCurrentUserWithOrg() {
   const user = await getCurrentUser();
   if (!user) return null;
 
-  const orgMember = await db.organizationMember.findFirst({
+  // Prefer the organization picked in the switcher; fall back to the oldest
+  // membership when none is set or the user no longer belongs to it
+  const cookieStore = await cookies();
+  const activeOrganizationId = cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value;
+
+  const activeMember = activeOrganizationId
+    ? await db.organizationMember.findFirst({
+        where: { userId: user.id, organizationId: activeOrganizationId },
+        include: {
+          organization: true,
+        },
+      })
+    : null;
+
+  const orgMember = activeMember ?? await db.organizationMember.findFirst({
     where: { userId: user.id },
     include: {
       organization: true,
     },
+    orderBy: { createdAt: 'asc' },
   });
 
   return {
@@ -47,5 +65,27 @@ export async function requireAuthWithOrg() {
   if (!userWithOrg.organization) {
     throw new Error("Organization membership required");
   }
+  return { ...userWithOrg, organization: userWithOrg.organization };
+}
+
+// requireAuthWithOrg plus a role check; throws PermissionError when the
+// user's role in the organization doesn't grant the permission. Requests
+// carrying an API key are checked against the key's scopes instead.
+export async function requirePermission(permission: Permission) {
+  const token = getBearerToken((await headers()).get("authorization"));
+  if (token) {
+    const apiKey = await authenticateApiKey(token);
+    assertScope(apiKey.scopes, permission);
+    const user: User = {
+      id: apiKey.creator.id,
+      email: apiKey.creator.email,
+      name: apiKey.creator.name ?? undefined,
+      image: apiKey.creator.image ?? undefined,
+    };
+    return { user, organization: apiKey.organization, role: null, apiKeyId: apiKey.id };
+  }
+
+  const userWithOrg = await requireAuthWithOrg();
+  assertPermission(userWithOrg.role, permission);
   return userWithOrg;
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 import { betterAuth } from "better-auth";
 import { prismaAdapter } from "better-auth/adapters/prisma";
 import { PrismaClient } from "@prisma/client";
+import { provisionNewUser } from "@/lib/organizations";
 
 const prisma = new PrismaClient();
 
@@ -21,6 +22,21 @@ export const auth = betterAuth({
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
   },
+  databaseHooks: {
+    user: {
+      create: {
+        // Runs for email sign-up and the first Google sign-in alike
+        after: async (user) => {
+          try {
+            await provisionNewUser(user);
+          } catch (error) {
+            // The account already exists; don't fail the sign-up over this
+            console.error("Failed to provision organization for new user:", user.id, error);
+          }
+        },
+      },
+    },
+  },
   // Removed deprecated generateId configuration
   plugins: [],
 });
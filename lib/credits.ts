@@ -0,0 +1,350 @@
+import type { Prisma } from '@prisma/client';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+
+type TransactionClient = Prisma.TransactionClient;
+
+export type CreditLedgerType = 'reserve' | 'capture' | 'release' | 'purchase' | 'allotment' | 'trial' | 'expire' | 'adjustment';
+
+// A credits.low webhook fires when a debit takes the balance to this or below
+export const LOW_CREDITS_THRESHOLD = 3;
+
+export class InsufficientCreditsError extends Error {
+  constructor(public creditsRemaining: number, public creditsRequired: number) {
+    super('Insufficient credits');
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+interface LedgerMovement {
+  organizationId: string;
+  userId?: string | null;
+  stagingJobId?: string | null;
+  type: CreditLedgerType;
+  amount: number; // signed change to creditsRemaining
+  balanceAfter: number;
+  action: string;
+  resourceId?: string | null;
+  billableCredits?: number; // defaults to the balance change
+  aiCostCents?: number | null;
+}
+
+// Write the ledger entry and its UsageLog. UsageLog keeps the existing
+// convention: positive billableCredits consume credits, negative add them.
+async function recordMovement(tx: TransactionClient, movement: LedgerMovement) {
+  const usageLog = await tx.usageLog.create({
+    data: {
+      organizationId: movement.organizationId,
+      userId: movement.userId ?? null,
+      action: movement.action,
+      resourceId: movement.resourceId ?? movement.stagingJobId ?? null,
+      aiCostCents: movement.aiCostCents ?? null,
+      billableCredits: movement.billableCredits ?? -movement.amount,
+    },
+  });
+
+  const entry = await tx.creditLedgerEntry.create({
+    data: {
+      organizationId: movement.organizationId,
+      stagingJobId: movement.stagingJobId ?? null,
+      usageLogId: usageLog.id,
+      type: movement.type,
+      amount: movement.amount,
+      balanceAfter: movement.balanceAfter,
+    },
+  });
+
+  // Only the debit that crosses the threshold notifies, not every one below it
+  const balanceBefore = movement.balanceAfter - movement.amount;
+  if (movement.balanceAfter <= LOW_CREDITS_THRESHOLD && balanceBefore > LOW_CREDITS_THRESHOLD) {
+    await enqueueWebhookEvent(tx, {
+      organizationId: movement.organizationId,
+      type: 'credits.low',
+      data: { creditsRemaining: movement.balanceAfter, threshold: LOW_CREDITS_THRESHOLD },
+    });
+  }
+
+  return entry;
+}
+
+async function getBalance(tx: TransactionClient, organizationId: string): Promise<number> {
+  const organization = await tx.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { creditsRemaining: true },
+  });
+  return organization.creditsRemaining;
+}
+
+// Hold credits for a newly accepted staging job. The conditional decrement
+// is what keeps the balance from ever going negative under concurrency.
+export async function reserveCredits(
+  tx: TransactionClient,
+  params: { organizationId: string; userId?: string | null; stagingJobId: string; credits: number }
+): Promise<number> {
+  const { organizationId, userId, stagingJobId, credits } = params;
+
+  const updated = await tx.organization.updateMany({
+    where: { id: organizationId, creditsRemaining: { gte: credits } },
+    data: { creditsRemaining: { decrement: credits } },
+  });
+
+  if (updated.count === 0) {
+    throw new InsufficientCreditsError(await getBalance(tx, organizationId), credits);
+  }
+
+  await tx.stagingJob.update({
+    where: { id: stagingJobId },
+    data: { creditsReserved: credits, creditStatus: 'reserved' },
+  });
+
+  const balanceAfter = await getBalance(tx, organizationId);
+  await recordMovement(tx, {
+    organizationId,
+    userId,
+    stagingJobId,
+    type: 'reserve',
+    amount: -credits,
+    balanceAfter,
+    action: 'credits_reserved',
+  });
+
+  return balanceAfter;
+}
+
+// Turn a reservation into a charge once the job has produced its output.
+// The balance was already reduced at reservation time, so a full capture only
+// moves the ledger; capturing fewer credits than reserved (some variations
+// failed) hands the difference back.
+export async function captureCredits(
+  tx: TransactionClient,
+  params: { stagingJobId: string; credits?: number; aiCostCents?: number | null }
+): Promise<void> {
+  const job = await tx.stagingJob.findUniqueOrThrow({
+    where: { id: params.stagingJobId },
+    select: { organizationId: true, createdBy: true, creditsReserved: true },
+  });
+
+  const captured = await tx.stagingJob.updateMany({
+    where: { id: params.stagingJobId, creditStatus: 'reserved' },
+    data: { creditStatus: 'captured' },
+  });
+  if (captured.count === 0) return;
+
+  const creditsToCapture = Math.min(params.credits ?? job.creditsReserved, job.creditsReserved);
+  const creditsToRelease = job.creditsReserved - creditsToCapture;
+
+  await recordMovement(tx, {
+    organizationId: job.organizationId,
+    userId: job.createdBy,
+    stagingJobId: params.stagingJobId,
+    type: 'capture',
+    amount: 0,
+    balanceAfter: await getBalance(tx, job.organizationId),
+    action: 'room_staged',
+    // The balance moved at reservation; this row records what the job cost
+    billableCredits: creditsToCapture,
+    aiCostCents: params.aiCostCents,
+  });
+
+  if (creditsToRelease > 0) {
+    const organization = await tx.organization.update({
+      where: { id: job.organizationId },
+      data: { creditsRemaining: { increment: creditsToRelease } },
+      select: { creditsRemaining: true },
+    });
+
+    await recordMovement(tx, {
+      organizationId: job.organizationId,
+      userId: job.createdBy,
+      stagingJobId: params.stagingJobId,
+      type: 'release',
+      amount: creditsToRelease,
+      balanceAfter: organization.creditsRemaining,
+      action: 'credits_released',
+    });
+  }
+}
+
+// Return a reservation to the balance when a job fails or is abandoned
+export async function releaseCredits(
+  tx: TransactionClient,
+  params: { stagingJobId: string }
+): Promise<void> {
+  const job = await tx.stagingJob.findUniqueOrThrow({
+    where: { id: params.stagingJobId },
+    select: { organizationId: true, createdBy: true, creditsReserved: true },
+  });
+
+  const released = await tx.stagingJob.updateMany({
+    where: { id: params.stagingJobId, creditStatus: 'reserved' },
+    data: { creditStatus: 'released' },
+  });
+  if (released.count === 0) return;
+
+  const organization = await tx.organization.update({
+    where: { id: job.organizationId },
+    data: { creditsRemaining: { increment: job.creditsReserved } },
+    select: { creditsRemaining: true },
+  });
+
+  await recordMovement(tx, {
+    organizationId: job.organizationId,
+    userId: job.createdBy,
+    stagingJobId: params.stagingJobId,
+    type: 'release',
+    amount: job.creditsReserved,
+    balanceAfter: organization.creditsRemaining,
+    action: 'credits_released',
+  });
+}
+
+const GRANT_ACTIONS: Record<'purchase' | 'allotment' | 'trial', string> = {
+  purchase: 'credits_purchased',
+  allotment: 'credits_allotted',
+  trial: 'trial_credits_granted',
+};
+
+// Add purchased credits, a subscription's monthly allotment or the sign-up
+// trial to an organization
+export async function grantCredits(
+  tx: TransactionClient,
+  params: {
+    organizationId: string;
+    userId?: string | null;
+    credits: number;
+    resourceId?: string | null;
+    source?: 'purchase' | 'allotment' | 'trial';
+  }
+): Promise<number> {
+  const source = params.source ?? 'purchase';
+
+  const organization = await tx.organization.update({
+    where: { id: params.organizationId },
+    data: { creditsRemaining: { increment: params.credits } },
+    select: { creditsRemaining: true },
+  });
+
+  await recordMovement(tx, {
+    organizationId: params.organizationId,
+    userId: params.userId,
+    type: source,
+    amount: params.credits,
+    balanceAfter: organization.creditsRemaining,
+    action: GRANT_ACTIONS[source],
+    resourceId: params.resourceId,
+  });
+
+  if (source === 'purchase') {
+    await enqueueWebhookEvent(tx, {
+      organizationId: params.organizationId,
+      type: 'credits.purchased',
+      data: {
+        credits: params.credits,
+        creditsRemaining: organization.creditsRemaining,
+        paymentIntentId: params.resourceId ?? null,
+      },
+    });
+  }
+
+  return organization.creditsRemaining;
+}
+
+// Remove unused subscription credits that do not roll over into a new period
+export async function expireCredits(
+  tx: TransactionClient,
+  params: { organizationId: string; credits: number; resourceId?: string | null }
+): Promise<number> {
+  const organization = await tx.organization.update({
+    where: { id: params.organizationId },
+    data: { creditsRemaining: { decrement: params.credits } },
+    select: { creditsRemaining: true },
+  });
+
+  await recordMovement(tx, {
+    organizationId: params.organizationId,
+    type: 'expire',
+    amount: -params.credits,
+    balanceAfter: organization.creditsRemaining,
+    action: 'credits_expired',
+    resourceId: params.resourceId,
+  });
+
+  return organization.creditsRemaining;
+}
+
+// Take back credits for a refunded or disputed payment. Whatever has already
+// been spent cannot be recovered from the balance, so it is recorded as owed
+// and the organization is flagged for review.
+export async function clawbackCredits(
+  tx: TransactionClient,
+  params: { organizationId: string; credits: number; resourceId: string; reason: string }
+): Promise<{ deducted: number; owed: number }> {
+  const { organizationId, credits, resourceId, reason } = params;
+
+  // Lock the balance so a concurrent reservation can't spend what we take
+  await tx.$queryRaw`SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE`;
+  const balance = await getBalance(tx, organizationId);
+
+  const deducted = Math.min(balance, credits);
+  const owed = credits - deducted;
+
+  const organization = await tx.organization.update({
+    where: { id: organizationId },
+    data: {
+      creditsRemaining: { decrement: deducted },
+      ...(owed > 0 && {
+        creditsOwed: { increment: owed },
+        billingFlaggedAt: new Date(),
+        billingFlagReason: reason,
+      }),
+    },
+    select: { creditsRemaining: true },
+  });
+
+  await recordMovement(tx, {
+    organizationId,
+    type: 'adjustment',
+    amount: -deducted,
+    balanceAfter: organization.creditsRemaining,
+    action: 'credits_clawed_back',
+    resourceId,
+  });
+
+  return { deducted, owed };
+}
+
+// Give back credits taken by clawbackCredits, e.g. when a dispute is won.
+// Outstanding debt is settled first; the flag clears once nothing is owed.
+export async function restoreCredits(
+  tx: TransactionClient,
+  params: { organizationId: string; credits: number; resourceId: string }
+): Promise<void> {
+  const { organizationId, credits, resourceId } = params;
+
+  await tx.$queryRaw`SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE`;
+  const { creditsOwed } = await tx.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { creditsOwed: true },
+  });
+
+  const settled = Math.min(creditsOwed, credits);
+  const restored = credits - settled;
+
+  const organization = await tx.organization.update({
+    where: { id: organizationId },
+    data: {
+      creditsRemaining: { increment: restored },
+      creditsOwed: { decrement: settled },
+      ...(settled === creditsOwed && { billingFlaggedAt: null, billingFlagReason: null }),
+    },
+    select: { creditsRemaining: true },
+  });
+
+  await recordMovement(tx, {
+    organizationId,
+    type: 'adjustment',
+    amount: restored,
+    balanceAfter: organization.creditsRemaining,
+    action: 'credits_restored',
+    resourceId,
+  });
+}
@@ -0,0 +1,44 @@
+import { Resend } from 'resend';
+
+let client: Resend | null = null;
+
+function getClient(): Resend | null {
+  if (!process.env.RESEND_API_KEY) return null;
+  if (!client) {
+    client = new Resend(process.env.RESEND_API_KEY);
+  }
+  return client;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Send a transactional email through Resend. Without RESEND_API_KEY (local
+// development) the message is logged instead so links can still be followed.
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const resend = getClient();
+  if (!resend) {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    return;
+  }
+
+  const { error } = await resend.emails.send({
+    from: process.env.EMAIL_FROM || 'Magic Staging <noreply@magicstaging.app>',
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+  });
+
+  if (error) {
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,143 @@
+import sharp from 'sharp';
+
+// Staged images scoring below this are flagged for review instead of being
+// auto-approved. Scores run from 0 (unusable) to 1 (architecture unchanged).
+export const STAGING_QUALITY_THRESHOLD = parseFloat(process.env.STAGING_QUALITY_THRESHOLD || '0.5');
+
+// Extra generations tried when a result scores below the threshold; the
+// best-scoring one is kept
+export const STAGING_QUALITY_RETRIES = parseInt(process.env.STAGING_QUALITY_RETRIES || '1', 10);
+
+// Both images are compared at this width, at the original's aspect ratio
+const COMPARE_WIDTH = 256;
+
+// SSIM is averaged over square windows of this size
+const SSIM_WINDOW = 8;
+
+// Aspect ratios within 2% count as equal; at 20% off the score reaches 0
+const ASPECT_TOLERANCE = 0.02;
+const ASPECT_LIMIT = 0.2;
+
+// A frame whose brightness barely varies is blank, whatever its colour
+const BLANK_STDEV = 4;
+
+// A type rather than an interface so it can be stored in JSON columns
+export type FidelityReport = {
+  score: number; // 0-1, rounded to two decimals
+  edgeSimilarity: number;
+  aspectRatioDelta: number; // relative difference, 0 when identical
+  sizeRatio: number; // staged pixel count over the original's
+  blank: boolean;
+};
+
+// Sobel gradient magnitude of a greyscale image
+function edgeMap(pixels: Buffer, width: number, height: number): Float32Array {
+  const edges = new Float32Array(width * height);
+  const at = (x: number, y: number) => pixels[y * width + x];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)
+        - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)
+        - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      edges[y * width + x] = Math.min(255, Math.hypot(gx, gy) / 4);
+    }
+  }
+
+  return edges;
+}
+
+// Mean structural similarity of two equally sized maps
+function meanSsim(a: Float32Array, b: Float32Array, width: number, height: number): number {
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const count = SSIM_WINDOW * SSIM_WINDOW;
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + SSIM_WINDOW <= height; top += SSIM_WINDOW) {
+    for (let left = 0; left + SSIM_WINDOW <= width; left += SSIM_WINDOW) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < top + SSIM_WINDOW; y++) {
+        for (let x = left; x < left + SSIM_WINDOW; x++) {
+          const valueA = a[y * width + x];
+          const valueB = b[y * width + x];
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      total += ((2 * meanA * meanB + c1) * (2 * covariance + c2))
+        / ((meanA * meanA + meanB * meanB + c1) * (varianceA + varianceB + c2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 0;
+}
+
+async function toGreyscale(buffer: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(buffer)
+    .rotate()
+    .flatten({ background: '#000000' })
+    .greyscale()
+    .normalise() // a darker dusk shot should not read as weaker edges
+    .resize(width, height, { fit: 'fill' })
+    .blur(1) // ignore fine texture such as wood grain or carpet
+    .raw()
+    .toBuffer();
+}
+
+// Compare a staged image with the photo it was made from. Staging adds edges
+// (furniture) but should keep the walls, windows and camera angle, so the edge
+// maps stay broadly similar; a moved window, new viewpoint or different crop
+// lowers the score, and blank frames score 0.
+export async function checkStagingFidelity(originalBuffer: Buffer, stagedBuffer: Buffer): Promise<FidelityReport> {
+  const [original, staged] = await Promise.all([
+    sharp(originalBuffer).rotate().metadata(),
+    sharp(stagedBuffer).rotate().metadata(),
+  ]);
+  if (!original.width || !original.height || !staged.width || !staged.height) {
+    throw new Error('Unable to determine image dimensions');
+  }
+
+  const originalAspect = original.width / original.height;
+  const aspectRatioDelta = Math.abs(staged.width / staged.height - originalAspect) / originalAspect;
+  const sizeRatio = (staged.width * staged.height) / (original.width * original.height);
+
+  const stats = await sharp(stagedBuffer).greyscale().stats();
+  const blank = stats.channels[0].stdev < BLANK_STDEV;
+
+  const width = COMPARE_WIDTH;
+  const height = Math.max(SSIM_WINDOW, Math.round(COMPARE_WIDTH / originalAspect));
+  const [originalPixels, stagedPixels] = await Promise.all([
+    toGreyscale(originalBuffer, width, height),
+    toGreyscale(stagedBuffer, width, height),
+  ]);
+  const edgeSimilarity = Math.max(0, meanSsim(
+    edgeMap(originalPixels, width, height),
+    edgeMap(stagedPixels, width, height),
+    width,
+    height
+  ));
+
+  const aspectScore = Math.min(1, Math.max(0, (ASPECT_LIMIT - aspectRatioDelta) / (ASPECT_LIMIT - ASPECT_TOLERANCE)));
+  const score = blank ? 0 : edgeSimilarity * aspectScore;
+
+  return {
+    score: Math.round(score * 100) / 100,
+    edgeSimilarity: Math.round(edgeSimilarity * 1000) / 1000,
+    aspectRatioDelta: Math.round(aspectRatioDelta * 1000) / 1000,
+    sizeRatio: Math.round(sizeRatio * 1000) / 1000,
+    blank,
+  };
+}
@@ -1,102 +1,254 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import fs from 'fs';
-import { saveUploadedFile } from '@/lib/local-storage';
+import sharp from 'sharp';
+import { getStorage, saveUploadedFile } from '@/lib/storage';
+import { getStagingProvider, type StagingProvider, type StagingProviderName } from '@/lib/staging-provider';
+import {
+  StagingError,
+  classifyStagingError,
+  isRetryableStagingError,
+  type StagingErrorCategory,
+} from '@/lib/staging-errors';
+import type { FurnitureDensity, StagingBudget, StylePresetSnapshot } from '@/lib/style-presets';
+import {
+  RENOVATION_SURFACES,
+  getEditPromptTemplate,
+  getPromptTemplate,
+  hasRenovationChanges,
+  type DayToDuskOptions,
+  type DuskSky,
+  type EditModeOptions,
+  type RenovationOptions,
+  type RenovationSurface,
+  type ReplacementSky,
+  type ResolvedPromptTemplate,
+  type SkyReplacementOptions,
+} from '@/lib/prompt-templates';
+import type { StagingJobType } from '@/lib/pricing';
+import { compositeMaskedImage } from '@/lib/image-processing';
+import {
+  STAGING_QUALITY_RETRIES,
+  STAGING_QUALITY_THRESHOLD,
+  checkStagingFidelity,
+  type FidelityReport,
+} from '@/lib/fidelity-check';
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY!);
+// Provider calls per variation, including the first one
+export const MAX_AI_ATTEMPTS = 3;
+
+// Backoff before retry n is base * 2^(n-1) plus up to 25% jitter. Rate limits
+// start from a longer base so the quota has time to recover.
+const RETRY_BASE_DELAY_MS = 2000;
+const RATE_LIMIT_BASE_DELAY_MS = 10 * 1000;
+
+// Image formats the provider accepts, keyed by sharp's format name
+const INPUT_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// File extensions for the image formats providers return
+const OUTPUT_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const MASK_INSTRUCTIONS = "MASK: The second image is a black and white mask of the same room. Only add or change content inside the white area; leave everything in the black area exactly as it is. ";
 
 export interface StagingJobRequest {
-  roomImageId: string;
+  jobType?: StagingJobType; // defaults to staging
+  roomImageKey: string; // the photo to edit: the room photo or a decluttered result
   organizationId: string;
   projectId: string;
+  roomType?: string | null; // selects the prompt template
   prompt?: string;
-  style: 'modern' | 'traditional' | 'minimalist' | 'luxury' | 'contemporary' | 'rustic';
+  style?: string; // style preset id, required for staging
+  stylePreset?: StylePresetSnapshot;
+  modeOptions?: EditModeOptions | null; // options of the day_to_dusk, sky_replacement and renovation modes
   preferences?: {
     colors?: string[];
-    furnitureCount?: 'minimal' | 'moderate' | 'full';
-    budget?: 'economy' | 'mid_range' | 'luxury';
+    furnitureCount?: FurnitureDensity;
+    budget?: StagingBudget;
   };
+  variation?: number; // index of the candidate within a multi-variation job
+  maskKey?: string | null; // stage only the white area of this mask
 }
 
 export interface StagingJobResult {
   success: boolean;
-  stagedImagePath?: string;
+  stagedImageKey?: string;
   stagedImageUrl?: string;
   processingTime: number;
+  attempts: number; // provider calls made, including retries
   error?: string;
+  errorCategory?: StagingErrorCategory;
+  fidelity?: FidelityReport; // how closely the result keeps the original's architecture
   aiMetadata?: {
+    provider: StagingProviderName;
     model: string;
-    prompt: string;
-    style: string;
+    prompt: string; // as rendered and sent to the model
+    jobType: StagingJobType;
+    promptTemplate: { id: string; version: number; styleVariant: string | null };
+    roomType: string | null;
+    style: string | null;
+    masked: boolean;
+    generations: number; // results generated, including ones discarded for low fidelity
+    fidelity: FidelityReport;
     estimatedCost: number;
   };
 }
 
-export async function processRoomStaging(request: StagingJobRequest): Promise<StagingJobResult> {
+function getRetryDelay(category: StagingErrorCategory, attempt: number): number {
+  const base = category === 'rate_limited' ? RATE_LIMIT_BASE_DELAY_MS : RETRY_BASE_DELAY_MS;
+  const delay = base * 2 ** (attempt - 1);
+  return delay + Math.round(Math.random() * delay * 0.25);
+}
+
+// Run an AI call, retrying retryable failures with exponential backoff.
+// Terminal failures, and the last retryable one, are rethrown.
+async function withRetries<T>(run: (attempt: number) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      const category = classifyStagingError(error);
+      if (!isRetryableStagingError(category) || attempt >= MAX_AI_ATTEMPTS) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(category, attempt);
+      console.warn(`Staging attempt ${attempt} failed (${category}), retrying in ${delay}ms:`, error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export async function processRoomStaging(
+  request: StagingJobRequest,
+  provider: StagingProvider = getStagingProvider()
+): Promise<StagingJobResult> {
   const startTime = Date.now();
+  let attempts = 0;
   
   try {
-    // Get the image generation model
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image-preview" });
-    
-    // Build the staging prompt
-    const stagingPrompt = buildProductionStagingPrompt(
-      request.prompt,
-      request.style,
-      request.preferences
-    );
-    
-    // Read the original image (we'll need to get the file path from the database)
-    // For now, we'll assume the s3Key field contains the local file path
-    // In production with AWS, this would fetch from S3
-    const roomImageBuffer = fs.readFileSync(request.roomImageId); // This needs to be the actual file path
+    const jobType = request.jobType ?? 'staging';
+    const { template, prompt: stagingPrompt } = buildJobPrompt(request);
     
-    // Convert image to format Gemini expects
-    const imagePart = {
-      inlineData: {
-        data: roomImageBuffer.toString('base64'),
-        mimeType: 'image/jpeg'
+    // Read the original image, and the mask if any, from the configured storage backend
+    let roomImageBuffer: Buffer;
+    let maskBuffer: Buffer | undefined;
+    try {
+      roomImageBuffer = await getStorage().get(request.roomImageKey);
+      if (request.maskKey) {
+        maskBuffer = await getStorage().get(request.maskKey);
       }
-    };
-    
-    // Generate staged image
-    const result = await model.generateContent([stagingPrompt, imagePart]);
-    
-    // Extract generated image
-    const generatedImageBuffer = await extractImageFromResponse(result);
+    } catch (error) {
+      throw new StagingError(error instanceof Error ? error.message : 'Failed to read room image', 'storage');
+    }
+
+    // Uploads may be JPEG, PNG or WebP, and masked or decluttered sources are PNG
+    const { format } = await sharp(roomImageBuffer).metadata();
+    const roomImageMimeType = format ? INPUT_MIME_TYPES[format] : undefined;
+    if (!roomImageMimeType) {
+      throw new StagingError(`Unsupported room image format: ${format ?? 'unknown'}`, 'invalid_request');
+    }
     
-    if (!generatedImageBuffer || generatedImageBuffer.length === 0) {
-      throw new Error('No image data received from AI model');
+    // Generate staged image with the configured provider. Results that move
+    // walls or windows, change the framing or come back blank are generated
+    // again, and the most faithful one is kept.
+    let best: { image: Buffer; mimeType: string; fidelity: FidelityReport } | null = null;
+    let generations = 0;
+    let estimatedCost = 0;
+    for (;;) {
+      const previousAttempts = attempts;
+      const generated = await withRetries(async attempt => {
+        attempts = previousAttempts + attempt;
+        const output = await provider.generateStagedImage({
+          image: roomImageBuffer,
+          mimeType: roomImageMimeType,
+          prompt: stagingPrompt,
+          jobType,
+          style: request.style,
+          variation: request.variation,
+          mask: maskBuffer,
+        });
+        if (!output.image || output.image.length === 0) {
+          throw new StagingError('No image data received from AI model', 'no_image');
+        }
+        return output;
+      });
+      generations++;
+      estimatedCost += generated.estimatedCost;
+      
+      // Models repaint the whole frame even when asked not to, so a masked
+      // result is pasted back onto the original to keep the rest untouched
+      let image = generated.image;
+      let mimeType = generated.mimeType;
+      if (maskBuffer) {
+        image = await compositeMaskedImage(roomImageBuffer, generated.image, maskBuffer);
+        mimeType = 'image/png';
+      }
+      
+      let fidelity: FidelityReport;
+      try {
+        fidelity = await checkStagingFidelity(roomImageBuffer, image);
+      } catch (error) {
+        throw new StagingError(error instanceof Error ? error.message : 'Unreadable image from AI model', 'no_image');
+      }
+      
+      if (!best || fidelity.score > best.fidelity.score) {
+        best = { image, mimeType, fidelity };
+      }
+      if (fidelity.score >= STAGING_QUALITY_THRESHOLD) {
+        break;
+      }
+      console.warn(`Staged image scored ${fidelity.score} for architectural fidelity (generation ${generations}):`, fidelity);
+      if (generations > STAGING_QUALITY_RETRIES) {
+        break;
+      }
     }
     
+    const stagedImageBuffer = best.image;
+    const stagedMimeType = best.mimeType;
+    
     // Save the staged image
     const timestamp = Date.now();
-    const stagedFilename = `staged_${timestamp}.jpg`;
+    const stagedFilename = `staged_${timestamp}.${OUTPUT_EXTENSIONS[stagedMimeType] ?? stagedMimeType.split('/')[1]}`;
     
     const saveResult = await saveUploadedFile(
-      generatedImageBuffer,
+      stagedImageBuffer,
       stagedFilename,
-      'image/jpeg',
+      stagedMimeType,
       request.organizationId,
       request.projectId,
       'staged'
     );
     
     if (!saveResult.success || !saveResult.file) {
-      throw new Error('Failed to save staged image');
+      throw new StagingError(saveResult.error || 'Failed to save staged image', 'storage');
     }
     
     const processingTime = Date.now() - startTime;
     
     return {
       success: true,
-      stagedImagePath: saveResult.file.path,
+      stagedImageKey: saveResult.file.key,
       stagedImageUrl: saveResult.file.url,
       processingTime,
+      attempts,
+      fidelity: best.fidelity,
       aiMetadata: {
-        model: 'gemini-2.5-flash-image-preview',
+        provider: provider.name,
+        model: provider.model,
         prompt: stagingPrompt,
-        style: request.style,
-        estimatedCost: 0.039, // $0.039 per image
+        jobType,
+        promptTemplate: { id: template.id, version: template.version, styleVariant: template.styleVariant },
+        roomType: request.roomType ?? null,
+        style: request.style ?? null,
+        masked: Boolean(maskBuffer),
+        generations,
+        fidelity: best.fidelity,
+        estimatedCost,
       },
     };
     
@@ -108,106 +260,225 @@ export async function processRoomStaging(request: StagingJobRequest): Promise<St
     return {
       success: false,
       processingTime,
+      attempts,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
+      errorCategory: classifyStagingError(error),
     };
   }
 }
 
-function buildProductionStagingPrompt(
-  customPrompt?: string,
-  style: string = 'modern',
-  preferences?: StagingJobRequest['preferences']
-): string {
-  let prompt = "Generate a professionally staged version of this empty room. ";
-  prompt += "Add realistic furniture, decor, and styling to make this space market-ready for real estate photography. ";
-  
-  // Style-specific instructions
-  const styleGuides = {
-    modern: "Use modern style: clean lines, neutral colors (whites, grays, blacks), contemporary furniture, minimal decor, and sleek lighting fixtures. ",
-    traditional: "Use traditional style: classic furniture pieces, warm colors (browns, creams, navy), elegant patterns, and traditional accessories. ",
-    minimalist: "Use minimalist style: very few furniture pieces, lots of white space, simple geometric forms, and maximum 3-4 carefully chosen items. ",
-    luxury: "Use luxury style: high-end furniture, rich materials (marble, hardwood, leather), sophisticated color palette, and premium accessories. ",
-    contemporary: "Use contemporary style: blend modern and traditional elements with current design trends, mixed textures, and statement pieces. ",
-    rustic: "Use rustic style: natural wood elements, warm earth tones, cozy textures, and farmhouse-style accessories. "
-  };
-  
-  prompt += styleGuides[style] || styleGuides.modern;
-  
-  // Add preferences if provided
-  if (preferences) {
-    if (preferences.colors && preferences.colors.length > 0) {
-      prompt += `Incorporate these specific colors: ${preferences.colors.join(', ')}. `;
+// Each job type renders its own template into a prompt
+function buildJobPrompt(request: StagingJobRequest): { template: ResolvedPromptTemplate; prompt: string } {
+  const masked = Boolean(request.maskKey);
+  const jobType = request.jobType ?? 'staging';
+
+  if (jobType === 'staging') {
+    if (!request.style || !request.stylePreset) {
+      throw new StagingError('Style is required', 'invalid_request');
     }
-    
-    if (preferences.furnitureCount) {
-      const furnitureGuides = {
-        minimal: "Use only essential furniture pieces to avoid clutter. ",
-        moderate: "Include a comfortable amount of furniture without overcrowding. ",
-        full: "Fully furnish the space with all necessary and decorative pieces. "
+    // Build the staging prompt from the room type's template
+    const template = getPromptTemplate(request.roomType, request.style);
+    return {
+      template,
+      prompt: buildProductionStagingPrompt(template, request.prompt, request.stylePreset, request.preferences, masked),
+    };
+  }
+
+  const template = getEditPromptTemplate(jobType, request.roomType);
+  switch (jobType) {
+    case 'declutter':
+      return { template, prompt: buildDeclutterPrompt(template, request.prompt, masked) };
+    case 'day_to_dusk':
+      return {
+        template,
+        prompt: buildDayToDuskPrompt(template, request.modeOptions as DayToDuskOptions | undefined, request.prompt, masked),
       };
-      prompt += furnitureGuides[preferences.furnitureCount];
-    }
-    
-    if (preferences.budget) {
-      const budgetGuides = {
-        economy: "Focus on affordable, practical furniture choices. ",
-        mid_range: "Balance quality and cost with mid-tier furniture selections. ",
-        luxury: "Use high-end, designer-quality furniture and accessories. "
+    case 'sky_replacement':
+      return {
+        template,
+        prompt: buildSkyReplacementPrompt(template, request.modeOptions as SkyReplacementOptions | undefined, request.prompt, masked),
+      };
+    case 'renovation':
+      return {
+        template,
+        prompt: buildRenovationPrompt(template, request.modeOptions as RenovationOptions | undefined, request.prompt, masked),
       };
-      prompt += budgetGuides[preferences.budget];
-    }
   }
+}
+
+// Numbered constraints, mask and custom instructions shared by the edit modes
+function buildEditRequirements(
+  template: ResolvedPromptTemplate,
+  customPrompt: string | undefined,
+  masked: boolean
+): string {
+  let prompt = "IMPORTANT TECHNICAL REQUIREMENTS: ";
+  template.constraints.forEach((constraint, index) => {
+    prompt += `${index + 1}. ${constraint} `;
+  });
   
-  // Technical requirements for realistic results
-  prompt += "IMPORTANT TECHNICAL REQUIREMENTS: ";
-  prompt += "1. Maintain the exact room architecture, walls, windows, doors, and lighting conditions. ";
-  prompt += "2. Add realistic shadows under all furniture pieces. ";
-  prompt += "3. Ensure all furniture is properly scaled and naturally positioned. ";
-  prompt += "4. Keep the same perspective and camera angle as the original. ";
-  prompt += "5. Match the existing lighting conditions and time of day. ";
-  prompt += "6. Preserve any existing built-in features like fireplaces, built-ins, or fixtures. ";
+  if (masked) {
+    prompt += MASK_INSTRUCTIONS;
+  }
   
   if (customPrompt && customPrompt.trim()) {
     prompt += `ADDITIONAL SPECIFIC REQUIREMENTS: ${customPrompt.trim()} `;
   }
   
-  prompt += "The final result must look photorealistic and professional for real estate marketing, indistinguishable from a professionally photographed staged room.";
+  return prompt;
+}
+
+function buildDeclutterPrompt(
+  template: ResolvedPromptTemplate,
+  customPrompt: string | undefined,
+  masked: boolean
+): string {
+  let prompt = `Edit this photo of a furnished ${template.roomLabel}. ${template.task} `;
+  prompt += buildEditRequirements(template, customPrompt, masked);
+  prompt += `The final result must look like a photorealistic photograph of the same ${template.roomLabel}, empty and freshly cleaned.`;
   
   return prompt;
 }
 
-async function extractImageFromResponse(result: any): Promise<Buffer> {
-  try {
-    // Check various possible response structures for image data
-    const response = result.response;
-    
-    // Check if there's image data in candidates
-    if (response?.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData?.data && part.inlineData?.mimeType?.startsWith('image/')) {
-          console.log('Found staged image data in AI response');
-          return Buffer.from(part.inlineData.data, 'base64');
-        }
-      }
-    }
-    
-    // Check for other possible image data locations
-    if (response?.image?.data) {
-      return Buffer.from(response.image.data, 'base64');
+function buildDayToDuskPrompt(
+  template: ResolvedPromptTemplate,
+  options: DayToDuskOptions | undefined,
+  customPrompt: string | undefined,
+  masked: boolean
+): string {
+  const skyGuides: Record<DuskSky, string> = {
+    blue_hour: "Give it a deep blue twilight sky with a faint warm glow at the horizon. ",
+    sunset: "Give it a vivid sunset sky with orange, pink and purple tones. ",
+  };
+  
+  let prompt = `${template.task} `;
+  prompt += skyGuides[options?.sky ?? 'blue_hour'];
+  
+  if (options?.interiorLights ?? true) {
+    prompt += "Turn on the interior lights so every window glows with warm light. ";
+  }
+  
+  prompt += buildEditRequirements(template, customPrompt, masked);
+  prompt += "The final result must look like a professionally shot twilight real estate photograph, not a darkened daytime photo.";
+  
+  return prompt;
+}
+
+function buildSkyReplacementPrompt(
+  template: ResolvedPromptTemplate,
+  options: SkyReplacementOptions | undefined,
+  customPrompt: string | undefined,
+  masked: boolean
+): string {
+  const skyGuides: Record<ReplacementSky, string> = {
+    clear_blue: "Use a clear, saturated blue sky without clouds. ",
+    scattered_clouds: "Use a bright blue sky with a few soft white clouds. ",
+    golden_hour: "Use a warm golden-hour sky with soft, glowing clouds near the horizon. ",
+  };
+  
+  let prompt = `${template.task} `;
+  prompt += skyGuides[options?.sky ?? 'clear_blue'];
+  prompt += buildEditRequirements(template, customPrompt, masked);
+  prompt += "The final result must look like an unedited photograph taken on a beautiful day.";
+  
+  return prompt;
+}
+
+function buildRenovationPrompt(
+  template: ResolvedPromptTemplate,
+  options: RenovationOptions | undefined,
+  customPrompt: string | undefined,
+  masked: boolean
+): string {
+  const surfaceLabels: Record<RenovationSurface, string> = {
+    flooring: 'Replace the flooring with',
+    wallColor: 'Paint the walls',
+    cabinets: 'Change the cabinets to',
+    countertops: 'Replace the countertops with',
+  };
+  
+  let prompt = `Edit this photo of a ${template.roomLabel}. ${template.task} `;
+  prompt += "RENOVATION: ";
+  for (const surface of RENOVATION_SURFACES) {
+    const change = options?.[surface]?.trim();
+    if (change) {
+      prompt += `${surfaceLabels[surface]} ${change}. `;
     }
-    
-    throw new Error('No image data found in AI response');
-    
-  } catch (error) {
-    console.error('Failed to extract image from AI response:', error);
-    throw new Error('Failed to process AI-generated image');
   }
+  
+  prompt += buildEditRequirements(template, customPrompt, masked);
+  prompt += `The final result must look like a photorealistic photograph of the same ${template.roomLabel} after the renovation.`;
+  
+  return prompt;
+}
+
+function buildProductionStagingPrompt(
+  template: ResolvedPromptTemplate,
+  customPrompt: string | undefined,
+  stylePreset: StylePresetSnapshot,
+  preferences?: StagingJobRequest['preferences'],
+  masked: boolean = false
+): string {
+  let prompt = `Generate a professionally staged version of this empty ${template.roomLabel}. `;
+  prompt += `${template.task} `;
+  
+  if (template.furniture.length > 0) {
+    prompt += `Choose from pieces such as: ${template.furniture.join(', ')}. `;
+  }
+  
+  // Style instructions come from the preset
+  prompt += `Use ${stylePreset.name} style: ${stylePreset.promptFragment.trim()} `;
+  
+  // Explicit preferences win over the preset's defaults
+  const colors = preferences?.colors?.length ? preferences.colors : stylePreset.colorPalette;
+  const furnitureCount = preferences?.furnitureCount ?? stylePreset.furnitureDensity;
+  const budget = preferences?.budget ?? stylePreset.budget;
+  
+  if (colors.length > 0) {
+    prompt += `Incorporate these specific colors: ${colors.join(', ')}. `;
+  }
+  
+  if (furnitureCount) {
+    const furnitureGuides = {
+      minimal: "Use only essential furniture pieces to avoid clutter. ",
+      moderate: "Include a comfortable amount of furniture without overcrowding. ",
+      full: "Fully furnish the space with all necessary and decorative pieces. "
+    };
+    prompt += furnitureGuides[furnitureCount];
+  }
+  
+  if (budget) {
+    const budgetGuides = {
+      economy: "Focus on affordable, practical furniture choices. ",
+      mid_range: "Balance quality and cost with mid-tier furniture selections. ",
+      luxury: "Use high-end, designer-quality furniture and accessories. "
+    };
+    prompt += budgetGuides[budget];
+  }
+  
+  // Technical requirements for realistic results, plus the room's own rules
+  prompt += "IMPORTANT TECHNICAL REQUIREMENTS: ";
+  template.constraints.forEach((constraint, index) => {
+    prompt += `${index + 1}. ${constraint} `;
+  });
+  
+  if (masked) {
+    prompt += MASK_INSTRUCTIONS;
+  }
+  
+  if (customPrompt && customPrompt.trim()) {
+    prompt += `ADDITIONAL SPECIFIC REQUIREMENTS: ${customPrompt.trim()} `;
+  }
+  
+  prompt += `The final result must look photorealistic and professional for real estate marketing, indistinguishable from a professionally photographed staged ${template.roomLabel}.`;
+  
+  return prompt;
 }
 
 // Utility function to validate staging request
 export function validateStagingRequest(request: StagingJobRequest): { valid: boolean; error?: string } {
-  if (!request.roomImageId) {
-    return { valid: false, error: 'Room image ID is required' };
+  if (!request.roomImageKey) {
+    return { valid: false, error: 'Room image is required' };
   }
   
   if (!request.organizationId) {
@@ -218,9 +489,12 @@ export function validateStagingRequest(request: StagingJobRequest): { valid: boo
     return { valid: false, error: 'Project ID is required' };
   }
   
-  const validStyles = ['modern', 'traditional', 'minimalist', 'luxury', 'contemporary', 'rustic'];
-  if (!validStyles.includes(request.style)) {
-    return { valid: false, error: 'Invalid style selection' };
+  if ((request.jobType ?? 'staging') === 'staging' && (!request.style || !request.stylePreset)) {
+    return { valid: false, error: 'Style is required' };
+  }
+  
+  if (request.jobType === 'renovation' && !hasRenovationChanges(request.modeOptions as RenovationOptions | null | undefined)) {
+    return { valid: false, error: 'Describe at least one renovation change' };
   }
   
   return { valid: true };
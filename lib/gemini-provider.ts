@@ -0,0 +1,116 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError,
+  type GenerateContentResult,
+  type GenerativeModel,
+} from '@google/generative-ai';
+import type { StagingProvider } from '@/lib/staging-provider';
+import { StagingError } from '@/lib/staging-errors';
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+// Image generation is slow, but a request that hangs this long is treated as
+// a transient failure and retried
+const GEMINI_REQUEST_TIMEOUT_MS = 90 * 1000;
+
+// Finish reasons that mean the output was withheld by a safety filter
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+let genAI: GoogleGenerativeAI | null = null;
+
+// Create the client on first use so modules that never call Gemini (mock
+// provider, tests, the worker in dev) do not need GOOGLE_AI_API_KEY
+export function getGeminiModel(model: string = GEMINI_IMAGE_MODEL): GenerativeModel {
+  if (!genAI) {
+    if (!process.env.GOOGLE_AI_API_KEY) {
+      throw new StagingError('GOOGLE_AI_API_KEY environment variable is not set', 'configuration');
+    }
+    genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY);
+  }
+  return genAI.getGenerativeModel({ model });
+}
+
+export const geminiStagingProvider: StagingProvider = {
+  name: 'gemini',
+  model: GEMINI_IMAGE_MODEL,
+
+  async generateStagedImage({ image, mimeType, prompt, mask }) {
+    const model = getGeminiModel();
+
+    // Convert image to format Gemini expects
+    const imagePart = {
+      inlineData: {
+        data: image.toString('base64'),
+        mimeType,
+      }
+    };
+    const parts = mask
+      ? [prompt, imagePart, { inlineData: { data: mask.toString('base64'), mimeType: 'image/png' } }]
+      : [prompt, imagePart];
+
+    let result: GenerateContentResult;
+    try {
+      result = await model.generateContent(parts, { timeout: GEMINI_REQUEST_TIMEOUT_MS });
+    } catch (error) {
+      throw toStagingError(error);
+    }
+    const generatedImage = await extractImageFromResponse(result);
+
+    return {
+      image: generatedImage.data,
+      mimeType: generatedImage.mimeType,
+      estimatedCost: 0.039, // $0.039 per image
+    };
+  },
+};
+
+// Map SDK errors onto staging error categories. HTTP errors keep their
+// status, which classifyStagingError understands.
+function toStagingError(error: unknown): unknown {
+  if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+    return error;
+  }
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return new StagingError(error.message, 'transient');
+  }
+  if (error instanceof GoogleGenerativeAIRequestInputError) {
+    return new StagingError(error.message, 'invalid_request');
+  }
+  // Anything else from the SDK is a network failure before a response arrived
+  if (error instanceof GoogleGenerativeAIError) {
+    return new StagingError(error.message, 'transient');
+  }
+  return error;
+}
+
+export async function extractImageFromResponse(
+  result: GenerateContentResult
+): Promise<{ data: Buffer; mimeType: string }> {
+  const response = result.response;
+
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new StagingError(`Prompt blocked by Gemini (${blockReason})`, 'safety_blocked');
+  }
+
+  const candidate = response?.candidates?.[0];
+  for (const part of candidate?.content?.parts ?? []) {
+    if (part.inlineData?.data && part.inlineData?.mimeType?.startsWith('image/')) {
+      console.log('Found staged image data in AI response');
+      return { data: Buffer.from(part.inlineData.data, 'base64'), mimeType: part.inlineData.mimeType };
+    }
+  }
+
+  const finishReason = candidate?.finishReason as string | undefined;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new StagingError(`Image withheld by Gemini (${finishReason})`, 'safety_blocked');
+  }
+
+  throw new StagingError(
+    `No image data found in AI response${finishReason ? ` (finish reason ${finishReason})` : ''}`,
+    'no_image'
+  );
+}
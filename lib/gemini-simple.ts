@@ -1,7 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY!);
+import { extractImageFromResponse, getGeminiModel } from '@/lib/gemini-provider';
 
 // Simple interface for testing
 export interface SimpleImageRequest {
@@ -25,7 +23,7 @@ export async function testStageImage(request: SimpleImageRequest): Promise<Simpl
     const imageBuffer = fs.readFileSync(request.imagePath);
     
     // Get the image generation model - using the correct image preview model
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image-preview" });
+    const model = getGeminiModel();
     
     // Create the staging prompt for image generation
     const stagingPrompt = buildImageGenerationPrompt(request.prompt, request.style);
@@ -44,7 +42,7 @@ export async function testStageImage(request: SimpleImageRequest): Promise<Simpl
     // Try to extract generated image
     let generatedImageBuffer: Buffer | null = null;
     try {
-      generatedImageBuffer = await extractImageFromResponse(result);
+      generatedImageBuffer = (await extractImageFromResponse(result)).data;
       console.log('Generated staged image successfully');
     } catch (imageError) {
       console.log('Image generation not available, falling back to analysis');
@@ -136,31 +134,3 @@ function buildImageGenerationPrompt(customPrompt?: string, style: string = 'mode
   
   return prompt;
 }
-
-async function extractImageFromResponse(result: any): Promise<Buffer> {
-  try {
-    // Check various possible response structures for image data
-    const response = result.response;
-    
-    // Check if there's image data in candidates
-    if (response?.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData?.data && part.inlineData?.mimeType?.startsWith('image/')) {
-          console.log('Found image data in response');
-          return Buffer.from(part.inlineData.data, 'base64');
-        }
-      }
-    }
-    
-    // Check for other possible image data locations
-    if (response?.image?.data) {
-      return Buffer.from(response.image.data, 'base64');
-    }
-    
-    throw new Error('No image data found in AI response');
-    
-  } catch (error) {
-    console.error('Failed to extract image from AI response:', error);
-    throw new Error('Failed to process AI-generated image');
-  }
-}
\ No newline at end of file
@@ -159,4 +159,62 @@ export async function validateImageFile(buffer: Buffer): Promise<{
       error: `Image validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
   }
-}
\ No newline at end of file
+}
+// Turn a drawn mask into a black and white PNG the size of the room image.
+// Painted pixels (white or opaque strokes on a transparent canvas) become
+// white; everything else becomes black.
+export async function normalizeMask(
+  maskBuffer: Buffer,
+  width: number,
+  height: number
+): Promise<{ buffer: Buffer; isEmpty: boolean }> {
+  const buffer = await sharp(maskBuffer)
+    .flatten({ background: '#000000' })
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .threshold(128)
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+
+  const stats = await sharp(buffer).stats();
+  return { buffer, isEmpty: stats.channels[0].max === 0 };
+}
+
+// Paste the masked area of a generated image onto the original. The output
+// is a lossless PNG, so every pixel outside the mask is exactly the original.
+export async function compositeMaskedImage(
+  originalBuffer: Buffer,
+  generatedBuffer: Buffer,
+  maskBuffer: Buffer
+): Promise<Buffer> {
+  const { width, height } = await sharp(originalBuffer).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to determine original image dimensions');
+  }
+
+  const alpha = await sharp(maskBuffer)
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .threshold(128)
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+
+  // sharp applies removeAlpha after joinChannel within one pipeline, so the
+  // generated image is flattened to raw RGB first
+  const generatedRgb = await sharp(generatedBuffer)
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const maskedArea = await sharp(generatedRgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return sharp(originalBuffer)
+    .composite([{ input: maskedArea }])
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+}
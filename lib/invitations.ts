@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { escapeHtml, sendEmail } from '@/lib/email';
+import { PlanLimitError, assertCanAddMember } from '@/lib/plan-limits';
+
+export const INVITATION_TTL_DAYS = 7;
+
+export type InvitationRole = 'admin' | 'member';
+
+export class InvitationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Create an invitation and email its link. Inviting an address again revokes
+// the earlier invitation, so only the newest link works.
+export async function createInvitation(params: {
+  organizationId: string;
+  email: string;
+  role: InvitationRole;
+  invitedBy: string;
+  baseUrl: string;
+}) {
+  const email = normalizeEmail(params.email);
+
+  const existingMember = await db.organizationMember.findFirst({
+    where: {
+      organizationId: params.organizationId,
+      user: { email: { equals: email, mode: 'insensitive' } },
+    },
+    select: { id: true },
+  });
+  if (existingMember) {
+    throw new InvitationError(`${email} is already a member of this organization`, 409);
+  }
+
+  await assertCanAddMember(params.organizationId);
+
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const invitation = await db.$transaction(async (tx) => {
+    await tx.invitation.updateMany({
+      where: { organizationId: params.organizationId, email, status: 'pending' },
+      data: { status: 'revoked', respondedAt: new Date() },
+    });
+
+    return tx.invitation.create({
+      data: {
+        organizationId: params.organizationId,
+        email,
+        role: params.role,
+        tokenHash: hashToken(token),
+        invitedBy: params.invitedBy,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+      include: {
+        organization: { select: { name: true } },
+        inviter: { select: { name: true, email: true } },
+      },
+    });
+  });
+
+  const link = `${params.baseUrl}/invite/${token}`;
+  const inviterName = invitation.inviter?.name || invitation.inviter?.email || 'A teammate';
+  const organizationName = invitation.organization.name;
+
+  await sendEmail({
+    to: email,
+    subject: `${inviterName} invited you to ${organizationName} on Magic Staging`,
+    text: `${inviterName} invited you to join ${organizationName} as ${params.role}.\n\nAccept or decline: ${link}\n\nThis link expires in ${INVITATION_TTL_DAYS} days.`,
+    html: `<p>${escapeHtml(inviterName)} invited you to join <strong>${escapeHtml(organizationName)}</strong> as ${params.role}.</p>`
+      + `<p><a href="${escapeHtml(link)}">Accept or decline the invitation</a></p>`
+      + `<p>This link expires in ${INVITATION_TTL_DAYS} days.</p>`,
+  });
+
+  return invitation;
+}
+
+export async function findInvitationByToken(token: string) {
+  return db.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      organization: { select: { id: true, name: true } },
+      inviter: { select: { name: true, email: true } },
+    },
+  });
+}
+
+async function getPendingInvitation(token: string) {
+  const invitation = await findInvitationByToken(token);
+  if (!invitation) {
+    throw new InvitationError('Invitation not found', 404);
+  }
+  if (invitation.status !== 'pending') {
+    throw new InvitationError(`This invitation has already been ${invitation.status}`, 410);
+  }
+  if (invitation.expiresAt < new Date()) {
+    throw new InvitationError('This invitation has expired', 410);
+  }
+  return invitation;
+}
+
+async function joinOrganization(
+  invitation: { id: string; organizationId: string; role: string },
+  userId: string
+) {
+  await db.$transaction(async (tx) => {
+    const responded = await tx.invitation.updateMany({
+      where: { id: invitation.id, status: 'pending' },
+      data: { status: 'accepted', respondedAt: new Date() },
+    });
+    if (responded.count === 0) {
+      throw new InvitationError('This invitation has already been answered', 410);
+    }
+
+    // An existing membership keeps its role
+    await tx.organizationMember.upsert({
+      where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+      create: { organizationId: invitation.organizationId, userId, role: invitation.role },
+      update: {},
+    });
+  });
+}
+
+// Join the organization. The signed-in account must own the invited address
+// so a forwarded link can't be used by someone else.
+export async function acceptInvitation(token: string, user: { id: string; email: string }) {
+  const invitation = await getPendingInvitation(token);
+
+  if (normalizeEmail(user.email) !== invitation.email) {
+    throw new InvitationError(`This invitation was sent to ${invitation.email}`, 403);
+  }
+
+  await assertCanAddMember(invitation.organizationId);
+  await joinOrganization(invitation, user.id);
+
+  return invitation.organization;
+}
+
+// Accept every open invitation addressed to a newly registered user. Returns
+// how many organizations they joined; invitations to organizations that are
+// at their member limit stay pending. Email sign-ups are not verified, so
+// they must use the emailed link instead; only a verified address (e.g. a
+// Google sign-in) proves the user owns the invited inbox.
+export async function acceptPendingInvitations(user: { id: string; email: string; emailVerified?: boolean | null }): Promise<number> {
+  if (!user.emailVerified) return 0;
+
+  const invitations = await db.invitation.findMany({
+    where: {
+      email: normalizeEmail(user.email),
+      status: 'pending',
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true, organizationId: true, role: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let joined = 0;
+  for (const invitation of invitations) {
+    try {
+      await assertCanAddMember(invitation.organizationId);
+      await joinOrganization(invitation, user.id);
+      joined++;
+    } catch (error) {
+      if (error instanceof PlanLimitError || error instanceof InvitationError) continue;
+      throw error;
+    }
+  }
+
+  return joined;
+}
+
+export async function declineInvitation(token: string) {
+  const invitation = await getPendingInvitation(token);
+
+  await db.invitation.updateMany({
+    where: { id: invitation.id, status: 'pending' },
+    data: { status: 'declined', respondedAt: new Date() },
+  });
+}
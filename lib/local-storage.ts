@@ -1,42 +1,12 @@
 import fs from 'fs';
 import path from 'path';
-import { writeFile, mkdir, access } from 'fs/promises';
-import sharp from 'sharp';
-
-// Base upload directory structure
-const UPLOADS_DIR = path.join(process.cwd(), 'public', 'uploads');
-const ORIGINALS_DIR = path.join(UPLOADS_DIR, 'originals');
-const STAGED_DIR = path.join(UPLOADS_DIR, 'staged');
-
-export interface FileMetadata {
-  filename: string;
-  originalName: string;
-  mimeType: string;
-  size: number;
-  width?: number;
-  height?: number;
-  path: string;
-  url: string;
-}
-
-export interface UploadResult {
-  success: boolean;
-  file?: FileMetadata;
-  error?: string;
-}
+import { writeFile, mkdir, readFile, unlink, readdir, stat } from 'fs/promises';
+import type { StorageDriver, StoredObject } from '@/lib/storage';
+import { createSignedAssetUrl, getAssetPath } from '@/lib/asset-urls';
 
-// Ensure upload directories exist
-export async function ensureUploadDirectories(): Promise<void> {
-  const dirs = [UPLOADS_DIR, ORIGINALS_DIR, STAGED_DIR];
-  
-  for (const dir of dirs) {
-    try {
-      await access(dir);
-    } catch {
-      await mkdir(dir, { recursive: true });
-    }
-  }
-}
+// Base upload directory; object keys are stored relative to it. It lives
+// outside public/ so files are only reachable through /api/assets.
+const UPLOADS_DIR = path.resolve(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'storage', 'uploads'));
 
 // Generate secure filename with timestamp
 export function generateSecureFilename(originalName: string, prefix?: string): string {
@@ -47,81 +17,89 @@ export function generateSecureFilename(originalName: string, prefix?: string): s
   return name.toLowerCase();
 }
 
-// Create organized directory structure
-export function createFilePath(organizationId: string, projectId: string, filename: string, type: 'original' | 'staged' = 'original'): {
-  fullPath: string;
-  relativePath: string;
-  url: string;
-} {
-  const baseDir = type === 'original' ? ORIGINALS_DIR : STAGED_DIR;
-  const orgDir = path.join(baseDir, organizationId);
-  const projectDir = path.join(orgDir, projectId);
-  
-  const fullPath = path.join(projectDir, filename);
-  const relativePath = path.relative(path.join(process.cwd(), 'public'), fullPath);
-  const url = '/' + relativePath.replace(/\\/g, '/'); // Ensure forward slashes for URLs
-  
-  return { fullPath, relativePath, url };
+// Map an object key onto the uploads directory, refusing anything that
+// would escape it
+function resolveLocalPath(key: string): string {
+  const fullPath = path.join(UPLOADS_DIR, key);
+  if (fullPath !== UPLOADS_DIR && !fullPath.startsWith(UPLOADS_DIR + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return fullPath;
+}
+
+function toObjectKey(fullPath: string): string {
+  return path.relative(UPLOADS_DIR, fullPath).split(path.sep).join('/');
 }
 
-// Save uploaded file with metadata extraction
-export async function saveUploadedFile(
-  buffer: Buffer,
-  originalName: string,
-  mimeType: string,
-  organizationId: string,
-  projectId: string,
-  type: 'original' | 'staged' = 'original'
-): Promise<UploadResult> {
+async function listFiles(dir: string): Promise<string[]> {
+  let entries: fs.Dirent[];
   try {
-    await ensureUploadDirectories();
-    
-    const filename = generateSecureFilename(originalName);
-    const { fullPath, url } = createFilePath(organizationId, projectId, filename, type);
-    
-    // Ensure project directory exists
-    const projectDir = path.dirname(fullPath);
-    await mkdir(projectDir, { recursive: true });
-    
-    // Extract image metadata using sharp
-    let width: number | undefined;
-    let height: number | undefined;
-    
-    if (mimeType.startsWith('image/')) {
-      try {
-        const metadata = await sharp(buffer).metadata();
-        width = metadata.width;
-        height = metadata.height;
-      } catch (error) {
-        console.warn('Failed to extract image metadata:', error);
-      }
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(entryPath));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
     }
-    
-    // Save file
-    await writeFile(fullPath, buffer);
-    
-    return {
-      success: true,
-      file: {
-        filename,
-        originalName,
-        mimeType,
-        size: buffer.length,
-        width,
-        height,
-        path: fullPath,
-        url,
-      },
-    };
-  } catch (error) {
-    console.error('File save failed:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
   }
+  return files;
 }
 
+// Filesystem driver for development; files are served by the /api/assets route
+export const localStorageDriver: StorageDriver = {
+  name: 'local',
+
+  async put(key, body) {
+    const fullPath = resolveLocalPath(key);
+    await mkdir(path.dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, body);
+  },
+
+  async get(key) {
+    return readFile(resolveLocalPath(key));
+  },
+
+  async delete(key) {
+    try {
+      await unlink(resolveLocalPath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  },
+
+  async list(prefix) {
+    // Walk from the deepest directory contained in the prefix
+    const prefixDir = prefix.endsWith('/') ? prefix : path.posix.dirname(prefix);
+    const files = await listFiles(resolveLocalPath(prefixDir === '.' ? '' : prefixDir));
+
+    const objects: StoredObject[] = [];
+    for (const file of files) {
+      const key = toObjectKey(file);
+      if (!key.startsWith(prefix)) continue;
+
+      const stats = await stat(file);
+      objects.push({ key, size: stats.size, lastModified: stats.mtime });
+    }
+    return objects;
+  },
+
+  getUrl(key) {
+    return getAssetPath(toObjectKey(resolveLocalPath(key)));
+  },
+
+  async getSignedUrl(key, expiresInSeconds = 60 * 60) {
+    return createSignedAssetUrl(toObjectKey(resolveLocalPath(key)), expiresInSeconds);
+  },
+};
+
 // Validate uploaded file
 export function validateFile(file: File): { valid: boolean; error?: string } {
   // File size validation (10MB max)
@@ -129,42 +107,17 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   if (file.size > MAX_FILE_SIZE) {
     return { valid: false, error: 'File size must be less than 10MB' };
   }
-  
+
   // File type validation
   const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
   if (!ALLOWED_TYPES.includes(file.type)) {
     return { valid: false, error: 'Only JPEG, PNG, and WebP images are allowed' };
   }
-  
+
   // Filename validation
   if (!file.name || file.name.trim().length === 0) {
     return { valid: false, error: 'Invalid filename' };
   }
-  
-  return { valid: true };
-}
 
-// Delete file from storage
-export async function deleteFile(filePath: string): Promise<boolean> {
-  try {
-    await fs.promises.unlink(filePath);
-    return true;
-  } catch (error) {
-    console.error('File deletion failed:', error);
-    return false;
-  }
+  return { valid: true };
 }
-
-// Get file statistics
-export async function getFileStats(filePath: string): Promise<{ exists: boolean; size?: number; modified?: Date }> {
-  try {
-    const stats = await fs.promises.stat(filePath);
-    return {
-      exists: true,
-      size: stats.size,
-      modified: stats.mtime,
-    };
-  } catch {
-    return { exists: false };
-  }
-}
\ No newline at end of file
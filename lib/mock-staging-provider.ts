@@ -0,0 +1,106 @@
+import sharp from 'sharp';
+import type { StagingProvider } from '@/lib/staging-provider';
+import type { StagingJobType } from '@/lib/pricing';
+
+export const MOCK_STAGING_MODEL = 'mock-sharp-overlay-v1';
+
+// Accent colours per style so mock output is visibly different between styles
+const STYLE_PALETTES: Record<string, { primary: string; secondary: string; accent: string }> = {
+  modern: { primary: '#4b5563', secondary: '#e5e7eb', accent: '#111827' },
+  traditional: { primary: '#7c4a2d', secondary: '#f5e6c8', accent: '#1e3a5f' },
+  minimalist: { primary: '#d1d5db', secondary: '#ffffff', accent: '#9ca3af' },
+  luxury: { primary: '#1f2937', secondary: '#d4af37', accent: '#7f1d1d' },
+  contemporary: { primary: '#334155', secondary: '#cbd5e1', accent: '#0f766e' },
+  rustic: { primary: '#8b5a2b', secondary: '#e8d5b5', accent: '#556b2f' },
+};
+
+// How the mock alters the photo for each mode other than staging
+const EDIT_ADJUSTMENTS: Record<Exclude<StagingJobType, 'staging'>, { label: string; modulate: { brightness?: number; saturation?: number; hue?: number } }> = {
+  declutter: { label: 'DECLUTTERED', modulate: { saturation: 0.2, brightness: 1.1 } },
+  day_to_dusk: { label: 'DAY TO DUSK', modulate: { brightness: 0.55, hue: 200 } },
+  sky_replacement: { label: 'SKY REPLACED', modulate: { saturation: 1.4 } },
+  renovation: { label: 'RENOVATION PREVIEW', modulate: { hue: 30 } },
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Simple furniture silhouettes (rug, sofa, side table, lamp) laid out relative
+// to the image size. No randomness: the same input always yields the same
+// output, and each variation index shifts the layout sideways.
+function buildOverlaySvg(width: number, height: number, style: string, variation: number): string {
+  const palette = STYLE_PALETTES[style] || STYLE_PALETTES.modern;
+  const floorY = Math.round(height * 0.72);
+  const sofaWidth = Math.round(width * 0.38);
+  const sofaHeight = Math.round(height * 0.14);
+  const sofaX = Math.round((width - sofaWidth) / 2 + ((variation % 3) - 1) * width * 0.12);
+  const sofaY = floorY - sofaHeight;
+  const tableSize = Math.round(height * 0.08);
+  const lampX = sofaX + sofaWidth + Math.round(width * 0.05);
+  const label = escapeXml(`MOCK STAGED · ${style} · #${variation + 1}`);
+  const fontSize = Math.max(14, Math.round(width / 40));
+
+  return `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <ellipse cx="${sofaX + sofaWidth / 2}" cy="${floorY + sofaHeight * 0.4}" rx="${sofaWidth * 0.75}" ry="${sofaHeight * 0.6}"
+        fill="${palette.secondary}" fill-opacity="0.85" />
+      <rect x="${sofaX}" y="${sofaY}" width="${sofaWidth}" height="${sofaHeight}" rx="${sofaHeight * 0.2}"
+        fill="${palette.primary}" fill-opacity="0.92" />
+      <rect x="${sofaX}" y="${sofaY - sofaHeight * 0.45}" width="${sofaWidth}" height="${sofaHeight * 0.55}" rx="${sofaHeight * 0.2}"
+        fill="${palette.primary}" fill-opacity="0.75" />
+      <rect x="${sofaX - tableSize * 1.4}" y="${floorY - tableSize}" width="${tableSize}" height="${tableSize}"
+        fill="${palette.accent}" fill-opacity="0.9" />
+      <rect x="${lampX}" y="${floorY - sofaHeight * 2.2}" width="${Math.max(4, width * 0.006)}" height="${sofaHeight * 2.2}"
+        fill="${palette.accent}" />
+      <circle cx="${lampX}" cy="${floorY - sofaHeight * 2.2}" r="${sofaHeight * 0.35}"
+        fill="${palette.secondary}" fill-opacity="0.95" />
+      <rect x="0" y="0" width="${width}" height="${fontSize * 2}" fill="#000000" fill-opacity="0.55" />
+      <text x="${fontSize / 2}" y="${fontSize * 1.4}" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${label}</text>
+    </svg>
+  `;
+}
+
+// Just the label bar, for the edit modes
+function buildLabelSvg(width: number, height: number, text: string): string {
+  const fontSize = Math.max(14, Math.round(width / 40));
+
+  return `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <rect x="0" y="0" width="${width}" height="${fontSize * 2}" fill="#000000" fill-opacity="0.55" />
+      <text x="${fontSize / 2}" y="${fontSize * 1.4}" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escapeXml(text)}</text>
+    </svg>
+  `;
+}
+
+// Offline provider for development and tests: draws placeholder furniture
+// over the source photo instead of calling an AI model. The edit modes get a
+// recoloured, labelled copy of the photo so each is easy to tell apart.
+export const mockStagingProvider: StagingProvider = {
+  name: 'mock',
+  model: MOCK_STAGING_MODEL,
+
+  async generateStagedImage({ image, jobType, style = 'modern', variation = 0 }) {
+    const source = sharp(image);
+    const metadata = await source.metadata();
+    const width = metadata.width || 1024;
+    const height = metadata.height || 768;
+
+    const staged = jobType !== 'staging'
+      ? await source
+        .modulate(EDIT_ADJUSTMENTS[jobType].modulate)
+        .composite([{ input: Buffer.from(buildLabelSvg(width, height, `MOCK ${EDIT_ADJUSTMENTS[jobType].label} · #${variation + 1}`)), top: 0, left: 0 }])
+        .jpeg({ quality: 90 })
+        .toBuffer()
+      : await source
+        .composite([{ input: Buffer.from(buildOverlaySvg(width, height, style, variation)), top: 0, left: 0 }])
+        .jpeg({ quality: 90 })
+        .toBuffer();
+
+    return {
+      image: staged,
+      mimeType: 'image/jpeg',
+      estimatedCost: 0,
+    };
+  },
+};
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { db } from '@/lib/db';
+import { grantCredits } from '@/lib/credits';
+import { acceptPendingInvitations } from '@/lib/invitations';
+
+// Credits a personal organization starts with when its owner signs up
+export const TRIAL_CREDITS = 10;
+
+// Cookie holding the organization the user is currently working in. It is
+// only a preference: membership is checked again on every request.
+export const ACTIVE_ORGANIZATION_COOKIE = 'active-organization';
+
+export const ACTIVE_ORGANIZATION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: 60 * 60 * 24 * 365,
+};
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48) || 'organization';
+}
+
+async function generateUniqueSlug(name: string): Promise<string> {
+  const base = slugify(name);
+  if (!await db.organization.findUnique({ where: { slug: base }, select: { id: true } })) {
+    return base;
+  }
+  return `${base}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+// Create an organization with the given user as its owner. Only the personal
+// organization made at sign-up gets trial credits, so creating more
+// organizations can't be used to collect them again.
+export async function createOrganization(params: { name: string; ownerId: string; trialCredits?: number }) {
+  const slug = await generateUniqueSlug(params.name);
+
+  return db.$transaction(async (tx) => {
+    const organization = await tx.organization.create({
+      data: {
+        name: params.name,
+        slug,
+        creditsRemaining: 0,
+        members: {
+          create: { userId: params.ownerId, role: 'owner' },
+        },
+      },
+    });
+
+    if (params.trialCredits) {
+      organization.creditsRemaining = await grantCredits(tx, {
+        organizationId: organization.id,
+        userId: params.ownerId,
+        credits: params.trialCredits,
+        source: 'trial',
+      });
+    }
+
+    return organization;
+  });
+}
+
+// Give a newly registered user somewhere to work: the organizations that
+// invited them (verified addresses only), or a personal organization with
+// trial credits
+export async function provisionNewUser(user: { id: string; email: string; emailVerified?: boolean | null; name?: string | null }) {
+  const joined = await acceptPendingInvitations(user);
+  if (joined > 0) return;
+
+  const displayName = user.name?.trim() || user.email.split('@')[0];
+  await createOrganization({
+    name: `${displayName}'s Organization`,
+    ownerId: user.id,
+    trialCredits: TRIAL_CREDITS,
+  });
+}
+
+export async function getUserOrganizations(userId: string) {
+  const memberships = await db.organizationMember.findMany({
+    where: { userId },
+    include: { organization: { select: { id: true, name: true, slug: true, planType: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return memberships.map(membership => ({
+    ...membership.organization,
+    role: membership.role,
+  }));
+}
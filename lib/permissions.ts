@@ -0,0 +1,109 @@
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'admin', 'member'];
+
+export type Permission =
+  | 'projects:read'
+  | 'projects:create'
+  | 'projects:update'
+  | 'projects:delete'
+  | 'images:upload'
+  | 'staging:read'
+  | 'staging:create'
+  | 'staging:review'
+  | 'billing:manage'
+  | 'members:invite'
+  | 'members:remove'
+  | 'members:update_role'
+  | 'api_keys:manage'
+  | 'webhooks:manage'
+  | 'styles:manage'
+  | 'branding:manage';
+
+export type ApiKeyScope = 'projects:read' | 'projects:write' | 'images:write' | 'staging:run';
+
+export const API_KEY_SCOPES: { scope: ApiKeyScope; description: string }[] = [
+  { scope: 'projects:read', description: 'List and read projects' },
+  { scope: 'projects:write', description: 'Create, update and delete projects' },
+  { scope: 'images:write', description: 'Upload room images' },
+  { scope: 'staging:run', description: 'Start, follow and review staging jobs' },
+];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  'projects:read',
+  'projects:create',
+  'projects:update',
+  'images:upload',
+  'staging:read',
+  'staging:create',
+  'staging:review',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  'projects:delete',
+  'billing:manage',
+  'members:invite',
+  'members:remove',
+  'api_keys:manage',
+  'webhooks:manage',
+  'styles:manage',
+  'branding:manage',
+];
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: [...ADMIN_PERMISSIONS, 'members:update_role'],
+  admin: ADMIN_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+};
+
+// Scope an API key needs for each permission. Permissions without a scope,
+// such as billing and team management, need a signed-in user.
+const PERMISSION_SCOPES: Partial<Record<Permission, ApiKeyScope>> = {
+  'projects:read': 'projects:read',
+  'projects:create': 'projects:write',
+  'projects:update': 'projects:write',
+  'projects:delete': 'projects:write',
+  'images:upload': 'images:write',
+  'staging:read': 'staging:run',
+  'staging:create': 'staging:run',
+  'staging:review': 'staging:run',
+};
+
+export class PermissionError extends Error {
+  constructor(public permission: Permission) {
+    super('You do not have permission to perform this action');
+    this.name = 'PermissionError';
+  }
+}
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isOrganizationRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function assertPermission(role: string | null | undefined, permission: Permission): void {
+  if (!hasPermission(role, permission)) {
+    throw new PermissionError(permission);
+  }
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.some(({ scope }) => scope === value);
+}
+
+export function assertScope(scopes: string[], permission: Permission): void {
+  const scope = PERMISSION_SCOPES[permission];
+  if (!scope || !scopes.includes(scope)) {
+    throw new PermissionError(permission);
+  }
+}
+
+// Admins may manage members but not owners or other admins
+export function canManageMember(actorRole: string | null | undefined, targetRole: string): boolean {
+  if (actorRole === 'owner') return true;
+  return actorRole === 'admin' && targetRole === 'member';
+}
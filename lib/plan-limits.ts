@@ -0,0 +1,62 @@
+import { db } from '@/lib/db';
+import {
+  getEffectivePlan,
+  type PlanLimits,
+  type SubscriptionPlan,
+} from '@/lib/pricing';
+
+export class PlanLimitError extends Error {
+  constructor(message: string, public limit: keyof PlanLimits) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+}
+
+async function getOrganizationPlan(organizationId: string): Promise<SubscriptionPlan> {
+  const organization = await db.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { planType: true, subscriptionStatus: true },
+  });
+  return getEffectivePlan(organization);
+}
+
+export async function assertCanCreateProject(organizationId: string): Promise<void> {
+  const plan = await getOrganizationPlan(organizationId);
+  if (plan.limits.maxProjects === null) return;
+
+  const projectCount = await db.project.count({ where: { organizationId } });
+  if (projectCount >= plan.limits.maxProjects) {
+    throw new PlanLimitError(
+      `The ${plan.name} plan allows up to ${plan.limits.maxProjects} projects. Upgrade your plan to create more.`,
+      'maxProjects'
+    );
+  }
+}
+
+export async function assertCanAddMember(organizationId: string): Promise<void> {
+  const plan = await getOrganizationPlan(organizationId);
+  if (plan.limits.maxMembers === null) return;
+
+  const memberCount = await db.organizationMember.count({ where: { organizationId } });
+  if (memberCount >= plan.limits.maxMembers) {
+    throw new PlanLimitError(
+      `The ${plan.name} plan allows up to ${plan.limits.maxMembers} members. Upgrade your plan to add more.`,
+      'maxMembers'
+    );
+  }
+}
+
+export async function assertStyleAllowed(
+  organizationId: string,
+  stylePreset: { name: string; isPremium: boolean }
+): Promise<void> {
+  if (!stylePreset.isPremium) return;
+
+  const plan = await getOrganizationPlan(organizationId);
+  if (!plan.limits.premiumStyles) {
+    throw new PlanLimitError(
+      `The ${stylePreset.name} style is not included in the ${plan.name} plan. Upgrade your plan to use it.`,
+      'premiumStyles'
+    );
+  }
+}
@@ -41,6 +41,26 @@ export const CREDIT_PACKAGES: CreditPackage[] = [
 
 export const BASE_PRICE_PER_CREDIT = 4.99;
 
+// staging furnishes a room and declutter empties an occupied one; the other
+// modes edit the photo itself
+export const STAGING_JOB_TYPES = ['staging', 'declutter', 'day_to_dusk', 'sky_replacement', 'renovation'] as const;
+export type StagingJobType = typeof STAGING_JOB_TYPES[number];
+
+// Credits per produced candidate. Decluttering and renovation previews rebuild
+// large parts of the photo, so they cost more.
+export const CREDITS_PER_VARIATION: Record<StagingJobType, number> = {
+  staging: 1,
+  declutter: 2,
+  day_to_dusk: 1,
+  sky_replacement: 1,
+  renovation: 2,
+};
+export const MAX_STAGING_VARIATIONS = 4;
+
+export function getStagingCreditCost(variations: number = 1, jobType: StagingJobType = 'staging'): number {
+  return variations * CREDITS_PER_VARIATION[jobType];
+}
+
 export function getCreditPackage(packageId: string): CreditPackage | null {
   return CREDIT_PACKAGES.find(pkg => pkg.id === packageId) || null;
 }
@@ -53,10 +73,120 @@ export function calculateTotalPrice(credits: number, pricePerCredit: number): nu
   return Math.round(credits * pricePerCredit * 100) / 100; // Round to 2 decimal places
 }
 
+// Transaction statuses that mean the money was received at some point
+export const PAID_STATUSES = ['succeeded', 'partially_refunded', 'refunded', 'disputed', 'charged_back'];
+
 export function formatPrice(cents: number): string {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
 export function priceToStripeAmount(price: number): number {
   return Math.round(price * 100); // Convert dollars to cents for Stripe
-}
\ No newline at end of file
+}
+
+export type PlanType = 'individual' | 'agency' | 'enterprise';
+
+export interface PlanLimits {
+  maxMembers: number | null; // null means unlimited
+  maxProjects: number | null;
+  premiumStyles: boolean; // style presets marked isPremium
+}
+
+// Requests per minute, counted per organization and per user (API keys count
+// against the user who created them)
+export interface RequestRateLimit {
+  organization: number;
+  user: number;
+}
+
+export interface PlanRateLimits {
+  staging: RequestRateLimit; // new jobs, retries and re-stages
+  upload: RequestRateLimit;
+  maxConcurrentStagingJobs: number; // pending plus processing
+}
+
+export interface SubscriptionPlan {
+  id: PlanType;
+  name: string;
+  monthlyPrice: number; // dollars; 0 means no subscription
+  monthlyCredits: number;
+  // Unused allotment carried into the next period; the rest expires.
+  // Purchased credits never expire.
+  maxRolloverCredits: number;
+  limits: PlanLimits;
+  rateLimits: PlanRateLimits;
+}
+
+export const SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
+  {
+    id: 'individual',
+    name: 'Individual',
+    monthlyPrice: 0,
+    monthlyCredits: 0,
+    maxRolloverCredits: 0,
+    limits: { maxMembers: 1, maxProjects: 5, premiumStyles: false },
+    rateLimits: {
+      staging: { organization: 10, user: 10 },
+      upload: { organization: 30, user: 30 },
+      maxConcurrentStagingJobs: 2,
+    },
+  },
+  {
+    id: 'agency',
+    name: 'Agency',
+    monthlyPrice: 99,
+    monthlyCredits: 30,
+    maxRolloverCredits: 30,
+    limits: { maxMembers: 10, maxProjects: 100, premiumStyles: true },
+    rateLimits: {
+      staging: { organization: 60, user: 20 },
+      upload: { organization: 120, user: 60 },
+      maxConcurrentStagingJobs: 10,
+    },
+  },
+  {
+    id: 'enterprise',
+    name: 'Enterprise',
+    monthlyPrice: 299,
+    monthlyCredits: 100,
+    maxRolloverCredits: 200,
+    limits: { maxMembers: null, maxProjects: null, premiumStyles: true },
+    rateLimits: {
+      staging: { organization: 200, user: 60 },
+      upload: { organization: 400, user: 120 },
+      maxConcurrentStagingJobs: 30,
+    },
+  },
+];
+
+export const DEFAULT_PLAN_TYPE: PlanType = 'individual';
+
+export function getSubscriptionPlan(planId: string | null | undefined): SubscriptionPlan | null {
+  return SUBSCRIPTION_PLANS.find(plan => plan.id === planId) || null;
+}
+
+// Subscription states that still entitle the organization to its paid plan;
+// past_due keeps access while Stripe retries the payment
+const ENTITLED_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+// The plan whose limits apply right now. A paid planType without any
+// subscription status was assigned by hand (e.g. an invoiced enterprise deal)
+// and is honoured as-is.
+export function getEffectivePlan(organization: { planType: string; subscriptionStatus: string | null }): SubscriptionPlan {
+  const defaultPlan = getSubscriptionPlan(DEFAULT_PLAN_TYPE)!;
+  const plan = getSubscriptionPlan(organization.planType) ?? defaultPlan;
+
+  if (
+    plan.monthlyPrice > 0
+    && organization.subscriptionStatus
+    && !ENTITLED_SUBSCRIPTION_STATUSES.includes(organization.subscriptionStatus)
+  ) {
+    return defaultPlan;
+  }
+  return plan;
+}
+
+// Stripe recurring price for a paid plan, e.g. STRIPE_PRICE_AGENCY
+export function getPlanStripePriceId(plan: SubscriptionPlan): string | null {
+  return process.env[`STRIPE_PRICE_${plan.id.toUpperCase()}`] || null;
+}
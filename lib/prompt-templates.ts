@@ -0,0 +1,265 @@
+import type { StagingJobType } from '@/lib/pricing';
+
+export const ROOM_TYPES = [
+  'living_room',
+  'bedroom',
+  'kitchen',
+  'dining_room',
+  'bathroom',
+  'office',
+  'other',
+] as const;
+
+export type RoomType = typeof ROOM_TYPES[number];
+
+// Extra vocabulary or rules for one style in one room type
+interface StyleVariant {
+  furniture?: string[];
+  constraints?: string[];
+}
+
+// Staging instructions for one room type. Bump version whenever the wording
+// changes: it is recorded with every staged image, so results can be traced
+// back to the template that produced them.
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  roomLabel: string; // how the prompt refers to the room
+  task: string;
+  furniture: string[];
+  constraints: string[];
+  styleVariants?: Record<string, StyleVariant>; // keyed by style preset id
+}
+
+export interface ResolvedPromptTemplate {
+  id: string;
+  version: number;
+  styleVariant: string | null;
+  roomLabel: string;
+  task: string;
+  furniture: string[];
+  constraints: string[];
+}
+
+// Rules every template shares
+const COMMON_CONSTRAINTS = [
+  'Maintain the exact room architecture, walls, windows, doors, and lighting conditions.',
+  'Add realistic shadows under all furniture pieces.',
+  'Ensure all furniture is properly scaled and naturally positioned.',
+  'Keep the same perspective and camera angle as the original.',
+  'Match the existing lighting conditions and time of day.',
+  'Preserve any existing built-in features like fireplaces, built-ins, or fixtures.',
+];
+
+const GENERIC_TEMPLATE: PromptTemplate = {
+  id: 'generic',
+  version: 1,
+  roomLabel: 'room',
+  task: 'Add realistic furniture, decor, and styling to make this space market-ready for real estate photography.',
+  furniture: [],
+  constraints: [],
+};
+
+const PROMPT_TEMPLATES: Record<Exclude<RoomType, 'other'>, PromptTemplate> = {
+  living_room: {
+    id: 'living_room',
+    version: 1,
+    roomLabel: 'living room',
+    task: 'Furnish it as an inviting living room ready for real estate photography.',
+    furniture: ['sofa', 'armchairs', 'coffee table', 'area rug', 'side tables', 'floor or table lamps', 'wall art', 'plants', 'media console'],
+    constraints: [
+      'Arrange seating in a conversation group facing the focal point (fireplace, window or TV wall).',
+      'Keep clear walkways between doors.',
+    ],
+    styleVariants: {
+      luxury: { furniture: ['designer sectional', 'marble coffee table', 'statement chandelier'] },
+      minimalist: { constraints: ['Use a single sofa, one accent chair and one rug at most.'] },
+    },
+  },
+  bedroom: {
+    id: 'bedroom',
+    version: 1,
+    roomLabel: 'bedroom',
+    task: 'Furnish it as a restful bedroom ready for real estate photography.',
+    furniture: ['bed with headboard and layered bedding', 'nightstands', 'bedside lamps', 'dresser', 'area rug', 'wall art', 'accent chair'],
+    constraints: [
+      'Place the bed against the most prominent solid wall, never in front of a window or door.',
+      'Size the bed to the room: a queen or king in large rooms, a full or twin in small ones.',
+    ],
+    styleVariants: {
+      luxury: { furniture: ['upholstered king bed', 'velvet bench at the foot of the bed'] },
+    },
+  },
+  kitchen: {
+    id: 'kitchen',
+    version: 1,
+    roomLabel: 'kitchen',
+    task: 'Style it as a clean, functional kitchen ready for real estate photography.',
+    furniture: ['counter stools', 'small countertop appliances', 'fruit bowl', 'cutting board', 'herb pots', 'pendant-friendly decor'],
+    constraints: [
+      'Do not add, remove or change cabinets, countertops, appliances, sinks or backsplash.',
+      'Keep countertops mostly clear; use at most a few small accessories.',
+      'Only add a dining table if there is an open eating area.',
+    ],
+  },
+  dining_room: {
+    id: 'dining_room',
+    version: 1,
+    roomLabel: 'dining room',
+    task: 'Furnish it as an elegant dining room ready for real estate photography.',
+    furniture: ['dining table', 'matching dining chairs', 'area rug under the table', 'sideboard or buffet', 'centerpiece', 'wall art'],
+    constraints: [
+      'Center the table under any existing light fixture.',
+      'Leave enough space to pull out every chair.',
+    ],
+  },
+  bathroom: {
+    id: 'bathroom',
+    version: 1,
+    roomLabel: 'bathroom',
+    task: 'Style it as a spotless, spa-like bathroom ready for real estate photography. Bathrooms get accessories, not furniture.',
+    furniture: ['folded towels', 'bath mat', 'soap dispenser', 'small plant', 'candles', 'framed print'],
+    constraints: [
+      'Do not add furniture such as sofas, beds, tables or chairs.',
+      'Do not add, remove or change the vanity, toilet, tub, shower, tiles, mirrors or plumbing fixtures.',
+      'Keep counters nearly empty.',
+    ],
+    styleVariants: {
+      luxury: { furniture: ['plush white towels', 'marble tray', 'orchid'] },
+    },
+  },
+  office: {
+    id: 'office',
+    version: 1,
+    roomLabel: 'home office',
+    task: 'Furnish it as a productive home office ready for real estate photography.',
+    furniture: ['desk', 'ergonomic desk chair', 'bookshelf', 'desk lamp', 'area rug', 'plants', 'wall art'],
+    constraints: [
+      'Face the desk toward the room or a window, not into a corner.',
+      'Keep cables and electronics out of view apart from a single monitor or laptop.',
+    ],
+  },
+};
+
+// Templates for the modes that edit the photo instead of furnishing it. Each
+// covers every room type; the prompt builders add the mode's options.
+export type EditJobType = Exclude<StagingJobType, 'staging'>;
+
+const EDIT_TEMPLATES: Record<EditJobType, Omit<PromptTemplate, 'roomLabel' | 'furniture' | 'styleVariants'>> = {
+  declutter: {
+    id: 'declutter',
+    version: 1,
+    task: 'Remove all furniture, decor, rugs, wall art, personal belongings and clutter so the room is completely empty and ready to be virtually staged.',
+    constraints: [
+      'Keep the walls, floors, ceilings, windows, doors, trim and architecture exactly as they are.',
+      'Keep built-in cabinets, countertops, appliances, plumbing fixtures, fireplaces and light fixtures.',
+      'Rebuild the floor, walls and baseboards hidden behind removed items so they match the visible surfaces.',
+      'Remove the shadows and reflections of removed items, but keep the lighting and time of day unchanged.',
+      'Keep the same perspective and camera angle as the original.',
+      'Do not add any new objects.',
+    ],
+  },
+  day_to_dusk: {
+    id: 'day_to_dusk',
+    version: 1,
+    task: 'Convert this daytime real estate photo into a twilight photo taken just after sunset.',
+    constraints: [
+      'Keep the building, landscaping, vehicles and every other object exactly where and how they are.',
+      'Darken the scene naturally for dusk, with soft ambient light and no harsh shadows.',
+      'Light up existing exterior fixtures, and keep their light realistic in color and falloff.',
+      'Keep the same perspective and camera angle as the original.',
+      'Do not add or remove any objects.',
+    ],
+  },
+  sky_replacement: {
+    id: 'sky_replacement',
+    version: 1,
+    task: 'Replace the sky in this real estate photo.',
+    constraints: [
+      'Only change the sky; keep the building, trees, rooftops, power lines and horizon exactly as they are.',
+      'Keep clean edges around rooflines and foliage with no halos or blur.',
+      'Adjust the light on the property slightly to match the new sky, without changing colors or materials.',
+      'Keep the same perspective and camera angle as the original.',
+    ],
+  },
+  renovation: {
+    id: 'renovation',
+    version: 1,
+    task: 'Show how this space would look after the renovation described below.',
+    constraints: [
+      'Only change the surfaces listed in the renovation; keep furniture, layout, windows, doors and fixtures as they are.',
+      'Make the new materials look professionally installed, with correct scale, texture, grout lines and reflections.',
+      'Keep the lighting, shadows and time of day unchanged.',
+      'Keep the same perspective and camera angle as the original.',
+    ],
+  },
+};
+
+// Options of the day_to_dusk, sky_replacement and renovation modes
+export const DUSK_SKIES = ['blue_hour', 'sunset'] as const;
+export type DuskSky = typeof DUSK_SKIES[number];
+
+export const REPLACEMENT_SKIES = ['clear_blue', 'scattered_clouds', 'golden_hour'] as const;
+export type ReplacementSky = typeof REPLACEMENT_SKIES[number];
+
+export const RENOVATION_SURFACES = ['flooring', 'wallColor', 'cabinets', 'countertops'] as const;
+export type RenovationSurface = typeof RENOVATION_SURFACES[number];
+
+export interface DayToDuskOptions {
+  sky: DuskSky;
+  interiorLights: boolean; // make windows glow as if the lights were on
+}
+
+export interface SkyReplacementOptions {
+  sky: ReplacementSky;
+}
+
+// What each surface should become, e.g. { flooring: "light oak hardwood" }
+export type RenovationOptions = Partial<Record<RenovationSurface, string>>;
+
+export type EditModeOptions = DayToDuskOptions | SkyReplacementOptions | RenovationOptions;
+
+export function hasRenovationChanges(options: RenovationOptions | null | undefined): boolean {
+  return RENOVATION_SURFACES.some(surface => Boolean(options?.[surface]?.trim()));
+}
+
+export function isRoomType(value: unknown): value is RoomType {
+  return typeof value === 'string' && (ROOM_TYPES as readonly string[]).includes(value);
+}
+
+// The template for a room type, with the style's variant merged in. Unknown,
+// missing and "other" room types fall back to the generic template.
+export function getPromptTemplate(roomType: string | null | undefined, styleId: string): ResolvedPromptTemplate {
+  const template = isRoomType(roomType) && roomType !== 'other'
+    ? PROMPT_TEMPLATES[roomType]
+    : GENERIC_TEMPLATE;
+  const variant = template.styleVariants?.[styleId];
+
+  return {
+    id: template.id,
+    version: template.version,
+    styleVariant: variant ? styleId : null,
+    roomLabel: template.roomLabel,
+    task: template.task,
+    furniture: [...template.furniture, ...(variant?.furniture ?? [])],
+    constraints: [...COMMON_CONSTRAINTS, ...template.constraints, ...(variant?.constraints ?? [])],
+  };
+}
+
+// The template of a mode other than staging, labelled for the room type
+export function getEditPromptTemplate(jobType: EditJobType, roomType: string | null | undefined): ResolvedPromptTemplate {
+  const roomTemplate = isRoomType(roomType) && roomType !== 'other'
+    ? PROMPT_TEMPLATES[roomType]
+    : GENERIC_TEMPLATE;
+  const template = EDIT_TEMPLATES[jobType];
+
+  return {
+    id: template.id,
+    version: template.version,
+    styleVariant: null,
+    roomLabel: roomTemplate.roomLabel,
+    task: template.task,
+    furniture: [],
+    constraints: template.constraints,
+  };
+}
@@ -0,0 +1,100 @@
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getEffectivePlan, type PlanRateLimits } from '@/lib/pricing';
+
+type TransactionClient = Prisma.TransactionClient;
+
+type PlanOrganization = { id: string; planType: string; subscriptionStatus: string | null };
+
+export type RateLimitedAction = 'staging' | 'upload';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Jobs take a while to run, so a client held back by the concurrency cap is
+// told to come back after roughly one job's worth of time
+const CONCURRENCY_RETRY_AFTER_SECONDS = 30;
+
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Count one request against a fixed window shared by every app instance.
+// Returns the seconds until the window resets when the limit is exceeded.
+async function consume(key: string, limit: number): Promise<number | null> {
+  const now = Date.now();
+  const windowStart = new Date(Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS);
+
+  const rows = await db.$queryRaw<Array<{ count: number }>>`
+    INSERT INTO rate_limit_buckets (key, count, "windowStart")
+    VALUES (${key}, 1, ${windowStart})
+    ON CONFLICT (key) DO UPDATE SET
+      count = CASE
+        WHEN rate_limit_buckets."windowStart" = EXCLUDED."windowStart" THEN rate_limit_buckets.count + 1
+        ELSE 1
+      END,
+      "windowStart" = EXCLUDED."windowStart"
+    RETURNING count
+  `;
+
+  if (rows[0].count <= limit) return null;
+  return Math.max(1, Math.ceil((windowStart.getTime() + RATE_LIMIT_WINDOW_MS - now) / 1000));
+}
+
+export function getPlanRateLimits(organization: PlanOrganization): PlanRateLimits {
+  return getEffectivePlan(organization).rateLimits;
+}
+
+// Throw RateLimitError when the organization or the user has used up this
+// minute's allowance for the action
+export async function assertWithinRateLimit(
+  action: RateLimitedAction,
+  params: { organization: PlanOrganization; userId: string }
+): Promise<void> {
+  const limit = getPlanRateLimits(params.organization)[action];
+
+  const [organizationRetryAfter, userRetryAfter] = await Promise.all([
+    consume(`${action}:org:${params.organization.id}`, limit.organization),
+    consume(`${action}:user:${params.organization.id}:${params.userId}`, limit.user),
+  ]);
+
+  if (organizationRetryAfter !== null) {
+    throw new RateLimitError(
+      `Your organization is limited to ${limit.organization} ${action} requests per minute`,
+      organizationRetryAfter
+    );
+  }
+  if (userRetryAfter !== null) {
+    throw new RateLimitError(
+      `You are limited to ${limit.user} ${action} requests per minute`,
+      userRetryAfter
+    );
+  }
+}
+
+// Call inside the transaction that queues a job, after reserveCredits has
+// locked the organization row, so parallel requests can't all see room for
+// one more job
+export async function assertStagingConcurrency(
+  tx: TransactionClient,
+  params: { organization: PlanOrganization; excludeJobId: string }
+): Promise<void> {
+  const { maxConcurrentStagingJobs } = getPlanRateLimits(params.organization);
+
+  const activeJobs = await tx.stagingJob.count({
+    where: {
+      organizationId: params.organization.id,
+      status: { in: ['pending', 'processing'] },
+      id: { not: params.excludeJobId },
+    },
+  });
+
+  if (activeJobs >= maxConcurrentStagingJobs) {
+    throw new RateLimitError(
+      `Your plan allows ${maxConcurrentStagingJobs} staging jobs in progress at a time. Wait for one to finish and try again.`,
+      CONCURRENCY_RETRY_AFTER_SECONDS
+    );
+  }
+}
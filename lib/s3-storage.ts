@@ -0,0 +1,118 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageDriver, StoredObject } from '@/lib/storage';
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+let client: S3Client | null = null;
+
+function getBucket(): string {
+  if (!process.env.S3_BUCKET) {
+    throw new Error('S3_BUCKET environment variable is not set');
+  }
+  return process.env.S3_BUCKET;
+}
+
+// S3_ENDPOINT points the client at any S3-compatible service such as a
+// local MinIO; those generally need path-style bucket addressing
+function getClient(): S3Client {
+  if (!client) {
+    const endpoint = process.env.S3_ENDPOINT || undefined;
+
+    client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(endpoint),
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+    });
+  }
+  return client;
+}
+
+export const s3StorageDriver: StorageDriver = {
+  name: 's3',
+
+  async put(key, body, contentType) {
+    await getClient().send(new PutObjectCommand({
+      Bucket: getBucket(),
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    }));
+  },
+
+  async get(key) {
+    const response = await getClient().send(new GetObjectCommand({
+      Bucket: getBucket(),
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error(`Empty response body for ${key}`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  },
+
+  async delete(key) {
+    await getClient().send(new DeleteObjectCommand({
+      Bucket: getBucket(),
+      Key: key,
+    }));
+  },
+
+  async list(prefix) {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await getClient().send(new ListObjectsV2Command({
+        Bucket: getBucket(),
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified,
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  },
+
+  getUrl(key) {
+    const base = process.env.S3_PUBLIC_URL
+      || (process.env.S3_ENDPOINT
+        ? `${process.env.S3_ENDPOINT.replace(/\/$/, '')}/${getBucket()}`
+        : `https://${getBucket()}.s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`);
+    return `${base.replace(/\/$/, '')}/${key}`;
+  },
+
+  async getSignedUrl(key, expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS) {
+    return getSignedUrl(
+      getClient(),
+      new GetObjectCommand({ Bucket: getBucket(), Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  },
+};
@@ -0,0 +1,84 @@
+export const STAGING_ERROR_CATEGORIES = [
+  'rate_limited',    // provider quota exceeded or HTTP 429
+  'transient',       // 5xx responses, network errors and timeouts
+  'no_image',        // the model answered without an image
+  'safety_blocked',  // the prompt or the output tripped a safety filter
+  'invalid_request', // the provider rejected the input
+  'configuration',   // missing or rejected API credentials
+  'storage',         // reading the room photo or saving the result failed
+  'worker_lost',     // the job kept crashing its worker
+  'unknown',
+] as const;
+
+export type StagingErrorCategory = typeof STAGING_ERROR_CATEGORIES[number];
+
+// Worth calling the provider again for; everything else fails the same way
+// every time and is surfaced to the user straight away
+const RETRYABLE_CATEGORIES: StagingErrorCategory[] = ['rate_limited', 'transient', 'no_image'];
+
+// Shown to users in place of the raw provider error
+const STAGING_ERROR_MESSAGES: Record<StagingErrorCategory, string> = {
+  rate_limited: 'The AI service is busy right now. Please try again in a few minutes.',
+  transient: 'The AI service had a temporary problem. Please try again.',
+  no_image: 'The AI did not return a staged image. Try again or adjust your instructions.',
+  safety_blocked: 'This photo or prompt was blocked by the AI safety filters. Try a different photo or remove unusual instructions.',
+  invalid_request: 'The AI service could not process this photo. Try a different photo.',
+  configuration: 'Staging is not configured correctly. Please contact support.',
+  storage: 'We could not read or save the image. Please try again.',
+  worker_lost: 'Staging was interrupted repeatedly and has been stopped. Please try again.',
+  unknown: 'Staging failed unexpectedly. Please try again.',
+};
+
+export class StagingError extends Error {
+  constructor(message: string, public category: StagingErrorCategory) {
+    super(message);
+    this.name = 'StagingError';
+  }
+}
+
+export function isRetryableStagingError(category: StagingErrorCategory): boolean {
+  return RETRYABLE_CATEGORIES.includes(category);
+}
+
+export function getStagingErrorMessage(category: StagingErrorCategory): string {
+  return STAGING_ERROR_MESSAGES[category];
+}
+
+function classifyHttpStatus(status: number): StagingErrorCategory {
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status >= 500) return 'transient';
+  if (status === 401 || status === 403) return 'configuration';
+  return 'invalid_request';
+}
+
+// Providers throw StagingError where they know what went wrong; anything else
+// is classified from its HTTP status or the shape of Node network errors
+export function classifyStagingError(error: unknown): StagingErrorCategory {
+  if (error instanceof StagingError) {
+    return error.category;
+  }
+
+  if (!(error instanceof Error)) {
+    return 'unknown';
+  }
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return classifyHttpStatus(status);
+  }
+
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return 'transient';
+  }
+
+  const code = (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code;
+  if (typeof code === 'string' && ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code)) {
+    return 'transient';
+  }
+
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return 'transient';
+  }
+
+  return 'unknown';
+}
@@ -0,0 +1,411 @@
+import type { Prisma, StagingJob } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getSignedAssetUrl } from '@/lib/storage';
+import { getWatermarkSettings, isWatermarkApplied } from '@/lib/watermark';
+import { validateStagingRequest, type StagingJobRequest } from '@/lib/gemini-production';
+import { getStagingProvider } from '@/lib/staging-provider';
+import { releaseCredits, reserveCredits } from '@/lib/credits';
+import { getStagingCreditCost, type StagingJobType } from '@/lib/pricing';
+import { assertStyleAllowed } from '@/lib/plan-limits';
+import { isRetryableStagingError, type StagingErrorCategory } from '@/lib/staging-errors';
+import { assertStagingConcurrency } from '@/lib/rate-limit';
+import type { EditModeOptions } from '@/lib/prompt-templates';
+import { MODE_OPTIONS_SCHEMAS, hasModeOptions } from '@/lib/staging-mode-options';
+import {
+  DEFAULT_STYLE_PRESET_ID,
+  findStylePreset,
+  toStylePresetSnapshot,
+  type StylePresetSnapshot,
+} from '@/lib/style-presets';
+
+export const STAGING_JOB_STATUSES = ['pending', 'processing', 'completed', 'failed', 'cancelled'] as const;
+
+export type StagingJobStatus = typeof STAGING_JOB_STATUSES[number];
+
+// What a job was asked to do; retries and re-stages start from a copy of this
+export interface StagingJobParameters {
+  jobType?: StagingJobType; // defaults to staging
+  sourceImageId?: string; // decluttered result of the same room to stage instead of its photo
+  roomType?: string;
+  prompt?: string;
+  style?: string; // style preset id; staging jobs only
+  preferences?: StagingJobRequest['preferences'];
+  modeOptions?: EditModeOptions; // day_to_dusk, sky_replacement and renovation jobs only
+  variations: number;
+  useMask?: boolean; // stage only the area painted on the room's mask
+}
+
+// What a re-stage may change. Mode options are merged into the original
+// job's and checked against its mode, which only the job knows.
+export type StagingJobOverrides = Partial<Omit<StagingJobParameters, 'modeOptions'>> & {
+  modeOptions?: Record<string, unknown>;
+};
+
+// Shape of StagingJob.stylePreferences
+export interface StoredStylePreferences {
+  style?: string;
+  stylePreset?: StylePresetSnapshot; // missing on jobs queued before presets existed
+  colors?: string[];
+  furnitureCount?: NonNullable<StagingJobRequest['preferences']>['furnitureCount'];
+  budget?: NonNullable<StagingJobRequest['preferences']>['budget'];
+}
+
+export class StagingJobError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'StagingJobError';
+  }
+}
+
+type StagingOrganization = {
+  id: string;
+  stagingProvider: string | null;
+  planType: string;
+  subscriptionStatus: string | null;
+};
+
+export interface StagingJobFilters {
+  projectId?: string;
+  roomImageId?: string;
+  statuses?: StagingJobStatus[];
+}
+
+export const stagingJobInclude = {
+  roomImage: { select: { projectId: true, project: { select: { watermark: true } } } },
+  sourceImage: { select: { stagingJobId: true } },
+  stagedImages: { orderBy: { createdAt: 'asc' } },
+  organization: {
+    select: {
+      watermarkEnabled: true,
+      watermarkText: true,
+      watermarkLogoKey: true,
+      watermarkPosition: true,
+      watermarkOpacity: true,
+      watermarkBadge: true,
+    },
+  },
+} satisfies Prisma.StagingJobInclude;
+
+type StagingJobWithImages = Prisma.StagingJobGetPayload<{ include: typeof stagingJobInclude }>;
+
+export function buildStagingJobWhere(organizationId: string, filters: StagingJobFilters): Prisma.StagingJobWhereInput {
+  return {
+    organizationId,
+    roomImageId: filters.roomImageId,
+    roomImage: filters.projectId ? { projectId: filters.projectId } : undefined,
+    status: filters.statuses?.length ? { in: filters.statuses } : undefined,
+  };
+}
+
+// Parse the projectId, roomImageId and comma-separated status query params
+export function parseStagingJobFilters(searchParams: URLSearchParams): StagingJobFilters {
+  const statuses = (searchParams.get('status') || '')
+    .split(',')
+    .map(status => status.trim())
+    .filter((status): status is StagingJobStatus => (STAGING_JOB_STATUSES as readonly string[]).includes(status));
+
+  return {
+    projectId: searchParams.get('projectId') || undefined,
+    roomImageId: searchParams.get('roomImageId') || undefined,
+    statuses,
+  };
+}
+
+// Shape shared by the job routes and the event stream. When the disclosure
+// watermark applies, url is the watermarked download so integrations that
+// publish it get the label; masterUrl is the clean image for in-app review
+// only and must not be published.
+// The master is the unwatermarked image. Only the app gets it, for previews;
+// API key callers get the download URL whenever a watermark applies.
+export async function serializeStagingJob(job: StagingJobWithImages, options: { includeMaster: boolean }) {
+  const processingTime = job.processingStartedAt && job.processingCompletedAt
+    ? job.processingCompletedAt.getTime() - job.processingStartedAt.getTime()
+    : null;
+  const watermarked = isWatermarkApplied(
+    getWatermarkSettings(job.organization),
+    job.roomImage.project.watermark
+  );
+
+  return {
+    id: job.id,
+    projectId: job.roomImage.projectId,
+    roomImageId: job.roomImageId,
+    status: job.status,
+    parentJobId: job.parentJobId,
+    jobType: job.jobType,
+    // A staging job that started from a decluttered image, and the declutter job that made it
+    sourceImageId: job.sourceImageId,
+    sourceJobId: job.sourceImage?.stagingJobId ?? null,
+    roomType: job.roomType,
+    masked: job.maskKey !== null,
+    variations: job.variations,
+    errorMessage: job.errorMessage,
+    errorCategory: job.errorCategory,
+    retryable: job.errorCategory ? isRetryableStagingError(job.errorCategory as StagingErrorCategory) : null,
+    aiAttempts: job.aiAttempts,
+    createdBy: job.createdBy,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    processingStartedAt: job.processingStartedAt,
+    processingCompletedAt: job.processingCompletedAt,
+    processingTime,
+    stagedImages: await Promise.all(job.stagedImages.map(async image => {
+      const masterUrl = await getSignedAssetUrl(image.s3Key);
+      const downloadUrl = `/api/staged-images/${image.id}/download`;
+      return {
+        id: image.id,
+        url: watermarked ? downloadUrl : masterUrl,
+        masterUrl: options.includeMaster || !watermarked ? masterUrl : null,
+        downloadUrl,
+        watermarked,
+        isApproved: image.isApproved,
+        reviewStatus: image.reviewStatus,
+        qualityScore: image.qualityScore === null ? null : Number(image.qualityScore),
+        qualityFlagged: image.qualityFlagged,
+      };
+    })),
+  };
+}
+
+export async function findStagingJob(organizationId: string, id: string) {
+  return db.stagingJob.findFirst({
+    where: { id, organizationId },
+    include: stagingJobInclude,
+  });
+}
+
+export function getStagingJobParameters(job: StagingJob): StagingJobParameters {
+  const stored = (job.stylePreferences ?? {}) as StoredStylePreferences;
+
+  return {
+    jobType: job.jobType as StagingJobType,
+    sourceImageId: job.sourceImageId ?? undefined,
+    roomType: job.roomType ?? undefined,
+    prompt: job.prompt || undefined,
+    style: stored.style ?? DEFAULT_STYLE_PRESET_ID,
+    preferences: {
+      colors: stored.colors,
+      furnitureCount: stored.furnitureCount,
+      budget: stored.budget,
+    },
+    modeOptions: (job.modeOptions as EditModeOptions | null) ?? undefined,
+    variations: job.variations,
+    useMask: job.maskKey !== null,
+  };
+}
+
+// Queue a job and reserve its credits atomically; the staging worker claims
+// it, runs the AI call and captures or releases the reservation. New jobs,
+// retries and re-stages all go through here so they are charged and
+// concurrency-capped alike.
+export async function enqueueStagingJob(params: {
+  organization: StagingOrganization;
+  userId: string;
+  roomImageId: string;
+  parameters: StagingJobParameters;
+  parentJobId?: string | null;
+  maskKey?: string; // exact mask to reuse instead of the room's current one
+  stylePreset?: StylePresetSnapshot; // exact preset to reuse instead of looking the style up
+}) {
+  const { organization, parameters } = params;
+  const jobType = parameters.jobType ?? 'staging';
+  const style = parameters.style ?? DEFAULT_STYLE_PRESET_ID;
+
+  const roomImage = await db.roomImage.findFirst({
+    where: { id: params.roomImageId, organizationId: organization.id },
+    select: { id: true, s3Key: true, projectId: true, roomType: true, maskKey: true },
+  });
+  if (!roomImage) {
+    throw new StagingJobError('Room image not found', 404);
+  }
+
+  const maskKey = parameters.useMask ? params.maskKey ?? roomImage.maskKey : null;
+  if (parameters.useMask && !maskKey) {
+    throw new StagingJobError('Draw the area to stage on this room image before staging with a mask');
+  }
+
+  // Staging an occupied room is two jobs: a declutter job empties it, then a
+  // staging job furnishes one of its results. The source image links them.
+  let sourceImage: { id: string; s3Key: string } | null = null;
+  if (parameters.sourceImageId) {
+    sourceImage = await db.stagedImage.findFirst({
+      where: {
+        id: parameters.sourceImageId,
+        organizationId: organization.id,
+        reviewStatus: { not: 'rejected' },
+        stagingJob: { roomImageId: roomImage.id, jobType: 'declutter' },
+      },
+      select: { id: true, s3Key: true },
+    });
+    if (!sourceImage) {
+      throw new StagingJobError('Decluttered image not found for this room image', 404);
+    }
+  }
+
+  // Only staging furnishes the room, so the other modes have no style
+  let stylePresetSnapshot: StylePresetSnapshot | undefined;
+  if (jobType === 'staging' && params.stylePreset) {
+    stylePresetSnapshot = params.stylePreset;
+  } else if (jobType === 'staging') {
+    const stylePreset = await findStylePreset(organization.id, style);
+    if (!stylePreset) {
+      throw new StagingJobError(`Unknown style "${style}"`);
+    }
+    await assertStyleAllowed(organization.id, stylePreset);
+    stylePresetSnapshot = toStylePresetSnapshot(stylePreset);
+  }
+
+  const validation = validateStagingRequest({
+    jobType,
+    roomImageKey: sourceImage?.s3Key ?? roomImage.s3Key,
+    organizationId: organization.id,
+    projectId: roomImage.projectId,
+    roomType: parameters.roomType ?? roomImage.roomType,
+    prompt: parameters.prompt,
+    style,
+    stylePreset: stylePresetSnapshot,
+    preferences: parameters.preferences,
+    modeOptions: parameters.modeOptions,
+    maskKey,
+  });
+  if (!validation.valid) {
+    throw new StagingJobError(validation.error || 'Invalid staging request');
+  }
+
+  return db.$transaction(async (tx) => {
+    const stagingJob = await tx.stagingJob.create({
+      data: {
+        roomImageId: roomImage.id,
+        organizationId: organization.id,
+        parentJobId: params.parentJobId ?? null,
+        jobType,
+        sourceImageId: sourceImage?.id ?? null,
+        roomType: parameters.roomType ?? roomImage.roomType,
+        maskKey,
+        prompt: parameters.prompt || '',
+        stylePreferences: stylePresetSnapshot ? {
+          style,
+          ...parameters.preferences,
+          stylePreset: { ...stylePresetSnapshot },
+        } satisfies StoredStylePreferences : undefined,
+        modeOptions: parameters.modeOptions ? { ...parameters.modeOptions } : undefined,
+        status: 'pending',
+        variations: parameters.variations,
+        aiModel: getStagingProvider(organization).model,
+        createdBy: params.userId,
+      },
+    });
+
+    const creditsRemaining = await reserveCredits(tx, {
+      organizationId: organization.id,
+      userId: params.userId,
+      stagingJobId: stagingJob.id,
+      credits: getStagingCreditCost(parameters.variations, jobType),
+    });
+
+    await assertStagingConcurrency(tx, { organization, excludeJobId: stagingJob.id });
+
+    return { stagingJob, creditsRemaining };
+  });
+}
+
+// Cancel a job the worker hasn't claimed yet and hand back its reservation.
+// Once a worker has started the AI call the job can no longer be cancelled.
+export async function cancelStagingJob(organizationId: string, jobId: string): Promise<void> {
+  const job = await db.stagingJob.findFirst({
+    where: { id: jobId, organizationId },
+    select: { status: true },
+  });
+  if (!job) {
+    throw new StagingJobError('Staging job not found', 404);
+  }
+
+  await db.$transaction(async (tx) => {
+    const cancelled = await tx.stagingJob.updateMany({
+      where: { id: jobId, organizationId, status: 'pending' },
+      data: { status: 'cancelled', processingCompletedAt: new Date() },
+    });
+    if (cancelled.count === 0) {
+      throw new StagingJobError(`A ${job.status} staging job can't be cancelled`, 409);
+    }
+
+    await releaseCredits(tx, { stagingJobId: jobId });
+  });
+}
+
+async function cloneStagingJob(params: {
+  organization: StagingOrganization;
+  userId: string;
+  jobId: string;
+  allowedStatuses: StagingJobStatus[];
+  overrides?: StagingJobOverrides;
+}) {
+  const parent = await db.stagingJob.findFirst({
+    where: { id: params.jobId, organizationId: params.organization.id },
+  });
+  if (!parent) {
+    throw new StagingJobError('Staging job not found', 404);
+  }
+  if (!(params.allowedStatuses as string[]).includes(parent.status)) {
+    throw new StagingJobError(`A ${parent.status} staging job can't be run again`, 409);
+  }
+
+  const original = getStagingJobParameters(parent);
+  const overrides = params.overrides ?? {};
+  const style = overrides.style ?? original.style;
+
+  let modeOptions = original.modeOptions;
+  if (overrides.modeOptions) {
+    const jobType = original.jobType ?? 'staging';
+    if (!hasModeOptions(jobType)) {
+      throw new StagingJobError(`${jobType} jobs don't take mode options`);
+    }
+    // Throws a ZodError, reported like any other invalid input
+    modeOptions = MODE_OPTIONS_SCHEMAS[jobType].parse({ ...original.modeOptions, ...overrides.modeOptions });
+  }
+
+  return enqueueStagingJob({
+    organization: params.organization,
+    userId: params.userId,
+    roomImageId: parent.roomImageId,
+    parentJobId: parent.id,
+    // Keep the parent's exact mask unless the caller decides about masking,
+    // so redrawing the mask doesn't change what a retry stages
+    maskKey: overrides.useMask === undefined ? parent.maskKey ?? undefined : undefined,
+    // Same for the style: the parent's preset stays as it was, even if the
+    // preset has since been edited, deleted or moved to a higher plan
+    stylePreset: style === original.style
+      ? (parent.stylePreferences as StoredStylePreferences | null)?.stylePreset
+      : undefined,
+    parameters: {
+      jobType: original.jobType,
+      sourceImageId: original.sourceImageId,
+      roomType: overrides.roomType ?? original.roomType,
+      prompt: overrides.prompt ?? original.prompt,
+      style,
+      preferences: { ...original.preferences, ...overrides.preferences },
+      modeOptions,
+      variations: overrides.variations ?? original.variations,
+      useMask: overrides.useMask ?? original.useMask,
+    },
+  });
+}
+
+// Run a failed or cancelled job again with exactly the same parameters
+export async function retryStagingJob(params: {
+  organization: StagingOrganization;
+  userId: string;
+  jobId: string;
+}) {
+  return cloneStagingJob({ ...params, allowedStatuses: ['failed', 'cancelled'] });
+}
+
+// Start a new job from any settled job, changing some of its parameters
+export async function restageStagingJob(params: {
+  organization: StagingOrganization;
+  userId: string;
+  jobId: string;
+  overrides: StagingJobOverrides;
+}) {
+  return cloneStagingJob({ ...params, allowedStatuses: ['completed', 'failed', 'cancelled'] });
+}
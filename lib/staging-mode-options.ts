@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { DUSK_SKIES, REPLACEMENT_SKIES, hasRenovationChanges } from '@/lib/prompt-templates';
+
+// Options of the modes that take them. New jobs and re-stages are checked
+// against the same schemas, so a re-stage can't queue options the process
+// route would have refused.
+
+const renovationChange = z.string().trim().min(1).max(200).optional();
+
+export const MODE_OPTIONS_SCHEMAS = {
+  day_to_dusk: z.object({
+    sky: z.enum(DUSK_SKIES).default('blue_hour'),
+    interiorLights: z.boolean().default(true),
+  }).default({ sky: 'blue_hour', interiorLights: true }),
+  sky_replacement: z.object({
+    sky: z.enum(REPLACEMENT_SKIES).default('clear_blue'),
+  }).default({ sky: 'clear_blue' }),
+  renovation: z.object({
+    flooring: renovationChange,
+    wallColor: renovationChange,
+    cabinets: renovationChange,
+    countertops: renovationChange,
+  }).refine(hasRenovationChanges, 'Describe at least one renovation change'),
+};
+
+export type ModeOptionsJobType = keyof typeof MODE_OPTIONS_SCHEMAS;
+
+export function hasModeOptions(jobType: string): jobType is ModeOptionsJobType {
+  return jobType in MODE_OPTIONS_SCHEMAS;
+}
@@ -0,0 +1,59 @@
+import { geminiStagingProvider } from '@/lib/gemini-provider';
+import { mockStagingProvider } from '@/lib/mock-staging-provider';
+import type { StagingJobType } from '@/lib/pricing';
+
+export type StagingProviderName = 'gemini' | 'mock';
+
+export interface StagingProviderInput {
+  image: Buffer;
+  mimeType: string;
+  prompt: string;
+  jobType: StagingJobType;
+  style?: string; // style preset id; staging jobs only
+  variation?: number;
+  mask?: Buffer; // PNG, white where the image may change
+}
+
+export interface StagingProviderOutput {
+  image: Buffer;
+  mimeType: string;
+  estimatedCost: number; // USD per generated image
+}
+
+// An AI backend that turns a room photo plus a prompt into a staged photo
+export interface StagingProvider {
+  name: StagingProviderName;
+  model: string;
+  generateStagedImage(input: StagingProviderInput): Promise<StagingProviderOutput>;
+}
+
+const STAGING_PROVIDERS: Record<StagingProviderName, StagingProvider> = {
+  gemini: geminiStagingProvider,
+  mock: mockStagingProvider,
+};
+
+export function isStagingProviderName(value: string): value is StagingProviderName {
+  return value in STAGING_PROVIDERS;
+}
+
+// Resolution order: organization override, STAGING_PROVIDER env var, then
+// Gemini when an API key is configured (always in production) or the mock.
+export function resolveStagingProviderName(organization?: { stagingProvider: string | null } | null): StagingProviderName {
+  const candidates = [organization?.stagingProvider, process.env.STAGING_PROVIDER];
+
+  for (const candidate of candidates) {
+    if (candidate && isStagingProviderName(candidate)) {
+      return candidate;
+    }
+  }
+
+  if (process.env.GOOGLE_AI_API_KEY || process.env.NODE_ENV === 'production') {
+    return 'gemini';
+  }
+
+  return 'mock';
+}
+
+export function getStagingProvider(organization?: { stagingProvider: string | null } | null): StagingProvider {
+  return STAGING_PROVIDERS[resolveStagingProviderName(organization)];
+}
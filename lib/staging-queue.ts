@@ -0,0 +1,312 @@
+import { db } from '@/lib/db';
+import { processRoomStaging, type StagingJobRequest, type StagingJobResult } from '@/lib/gemini-production';
+import { getStagingProvider } from '@/lib/staging-provider';
+import { captureCredits, releaseCredits } from '@/lib/credits';
+import { getStagingCreditCost, type StagingJobType } from '@/lib/pricing';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import type { StoredStylePreferences } from '@/lib/staging-jobs';
+import { DEFAULT_STYLE_PRESET_ID, findStylePreset, toStylePresetSnapshot } from '@/lib/style-presets';
+import type { EditModeOptions } from '@/lib/prompt-templates';
+import { STAGING_QUALITY_THRESHOLD } from '@/lib/fidelity-check';
+import {
+  classifyStagingError,
+  getStagingErrorMessage,
+  isRetryableStagingError,
+  type StagingErrorCategory,
+} from '@/lib/staging-errors';
+
+// How long a worker owns a claimed job before another worker may pick it up
+export const STAGING_LEASE_MS = 2 * 60 * 1000;
+
+// A job that keeps crashing its worker is failed after this many claims
+export const MAX_STAGING_ATTEMPTS = 3;
+
+// Claim the oldest runnable job. Pending jobs and processing jobs whose lease
+// has expired (crashed worker) are both eligible. SKIP LOCKED lets several
+// workers poll the table concurrently without handing out the same row twice.
+export async function claimNextStagingJob(workerId: string): Promise<string | null> {
+  const now = new Date();
+  const leaseExpiresAt = new Date(now.getTime() + STAGING_LEASE_MS);
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    UPDATE staging_jobs
+    SET status = 'processing',
+        "lockedBy" = ${workerId},
+        "leaseExpiresAt" = ${leaseExpiresAt},
+        "processingStartedAt" = ${now},
+        "updatedAt" = ${now},
+        attempts = attempts + 1
+    WHERE id = (
+      SELECT id FROM staging_jobs
+      WHERE (status = 'pending' OR (status = 'processing' AND "leaseExpiresAt" < ${now}))
+        AND attempts < ${MAX_STAGING_ATTEMPTS}
+      ORDER BY "createdAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `;
+
+  return rows[0]?.id ?? null;
+}
+
+// Extend the lease while a long-running AI call is in flight
+export async function renewStagingJobLease(jobId: string, workerId: string): Promise<boolean> {
+  const result = await db.stagingJob.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: 'processing' },
+    data: { leaseExpiresAt: new Date(Date.now() + STAGING_LEASE_MS) },
+  });
+  return result.count > 0;
+}
+
+// Fail stale jobs that have already used up their attempts so they do not
+// sit in processing forever
+export async function reapExhaustedStagingJobs(): Promise<number> {
+  const exhausted = await db.stagingJob.findMany({
+    where: {
+      status: 'processing',
+      leaseExpiresAt: { lt: new Date() },
+      attempts: { gte: MAX_STAGING_ATTEMPTS },
+    },
+    select: { id: true, lockedBy: true },
+  });
+
+  for (const job of exhausted) {
+    await failStagingJob(job.id, job.lockedBy, {
+      category: 'worker_lost',
+      detail: `Lease held by ${job.lockedBy ?? 'unknown worker'} expired with no attempts left`,
+    });
+  }
+
+  return exhausted.length;
+}
+
+// Mark the job failed and hand its reserved credits back in one transaction.
+// errorMessage is the user-facing text for the category; the raw error is
+// kept in errorDetail for failure analysis.
+export async function failStagingJob(
+  jobId: string,
+  workerId: string | null,
+  failure: { category: StagingErrorCategory; detail?: string | null; aiAttempts?: number }
+): Promise<void> {
+  const errorMessage = getStagingErrorMessage(failure.category);
+
+  await db.$transaction(async (tx) => {
+    const failed = await tx.stagingJob.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: 'processing' },
+      data: {
+        status: 'failed',
+        errorMessage,
+        errorDetail: failure.detail ?? null,
+        errorCategory: failure.category,
+        aiAttempts: failure.aiAttempts,
+        processingCompletedAt: new Date(),
+        lockedBy: null,
+        leaseExpiresAt: null,
+      },
+    });
+
+    if (failed.count > 0) {
+      await releaseCredits(tx, { stagingJobId: jobId });
+
+      const job = await tx.stagingJob.findUniqueOrThrow({
+        where: { id: jobId },
+        select: { organizationId: true, roomImageId: true, jobType: true, roomImage: { select: { projectId: true } } },
+      });
+      await enqueueWebhookEvent(tx, {
+        organizationId: job.organizationId,
+        type: 'staging_job.failed',
+        data: {
+          stagingJobId: jobId,
+          jobType: job.jobType,
+          projectId: job.roomImage.projectId,
+          roomImageId: job.roomImageId,
+          error: errorMessage,
+          errorCategory: failure.category,
+          retryable: isRetryableStagingError(failure.category),
+        },
+      });
+    }
+  });
+}
+
+// Run a claimed job through the AI pipeline and record the outcome
+export async function runStagingJob(jobId: string, workerId: string): Promise<void> {
+  const job = await db.stagingJob.findUnique({
+    where: { id: jobId },
+    include: {
+      roomImage: true,
+      sourceImage: { select: { s3Key: true } },
+      organization: {
+        select: { stagingProvider: true },
+      },
+    },
+  });
+
+  if (!job || job.lockedBy !== workerId) {
+    return;
+  }
+
+  // Record the provider actually used, which may differ from the one
+  // resolved at enqueue time if the org or environment setting changed
+  const provider = getStagingProvider(job.organization);
+  if (job.aiModel !== provider.model) {
+    await db.stagingJob.update({
+      where: { id: jobId },
+      data: { aiModel: provider.model },
+    });
+  }
+
+  const jobType = job.jobType as StagingJobType;
+  const preferences = (job.stylePreferences ?? {}) as StoredStylePreferences;
+  const style = preferences.style ?? DEFAULT_STYLE_PRESET_ID;
+
+  // Jobs carry a copy of their preset; older ones are resolved by id
+  let stylePreset = preferences.stylePreset;
+  if (jobType === 'staging' && !stylePreset) {
+    const preset = await findStylePreset(job.organizationId, style);
+    if (!preset) {
+      console.error(`Staging job ${jobId} uses unknown style ${style}`);
+      await failStagingJob(jobId, workerId, { category: 'invalid_request', detail: `Unknown style "${style}"` });
+      return;
+    }
+    stylePreset = toStylePresetSnapshot(preset);
+  }
+
+  const stagingRequest: StagingJobRequest = {
+    jobType,
+    // Staging after decluttering works on the decluttered image
+    roomImageKey: job.sourceImage?.s3Key ?? job.roomImage.s3Key,
+    organizationId: job.organizationId,
+    projectId: job.roomImage.projectId,
+    roomType: job.roomType ?? job.roomImage.roomType,
+    prompt: job.prompt || undefined,
+    style: jobType === 'staging' ? style : undefined,
+    stylePreset,
+    preferences: {
+      colors: preferences.colors,
+      furnitureCount: preferences.furnitureCount,
+      budget: preferences.budget,
+    },
+    modeOptions: job.modeOptions as EditModeOptions | null,
+    maskKey: job.maskKey,
+  };
+
+  const leaseTimer = setInterval(() => {
+    renewStagingJobLease(jobId, workerId).catch(error => {
+      console.error(`Failed to renew lease for staging job ${jobId}:`, error);
+    });
+  }, STAGING_LEASE_MS / 3);
+
+  let aiAttempts = 0;
+  try {
+    // Generate each candidate independently so one bad generation does not
+    // throw away the others
+    const results: StagingJobResult[] = [];
+    for (let variation = 0; variation < job.variations; variation++) {
+      results.push(await processRoomStaging({ ...stagingRequest, variation }, provider));
+    }
+
+    aiAttempts = results.reduce((sum, result) => sum + result.attempts, 0);
+    const successful = results.filter(result => result.success);
+    const firstFailure = results.find(result => !result.success);
+    if (successful.length === 0) {
+      await failStagingJob(jobId, workerId, {
+        category: firstFailure?.errorCategory ?? 'unknown',
+        detail: firstFailure?.error,
+        aiAttempts,
+      });
+      return;
+    }
+
+    const aiCostCents = Math.round(
+      successful.reduce((sum, result) => sum + result.aiMetadata!.estimatedCost, 0) * 100
+    );
+    const failedCount = results.length - successful.length;
+
+    // Results that scored below the fidelity threshold need a human look
+    const isFlagged = (result: StagingJobResult) =>
+      result.fidelity !== undefined && result.fidelity.score < STAGING_QUALITY_THRESHOLD;
+
+    await db.$transaction(async (tx) => {
+      // Only the lease holder may complete the job
+      const claimed = await tx.stagingJob.updateMany({
+        where: { id: jobId, lockedBy: workerId, status: 'processing' },
+        data: {
+          status: 'completed',
+          processingCompletedAt: new Date(),
+          aiCostCents,
+          errorMessage: failedCount > 0
+            ? `${failedCount} of ${results.length} variations failed`
+            : null,
+          errorDetail: firstFailure?.error ?? null,
+          errorCategory: firstFailure?.errorCategory ?? null,
+          aiAttempts,
+          lockedBy: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error(`Lost lease on staging job ${jobId}`);
+      }
+
+      const stagedImages = [];
+      for (const result of successful) {
+        const qualityFlagged = isFlagged(result);
+        // A single candidate needs no review; several are approved by the user
+        const autoApprove = job.variations === 1 && !qualityFlagged;
+        stagedImages.push(await tx.stagedImage.create({
+          data: {
+            stagingJobId: jobId,
+            organizationId: job.organizationId,
+            s3Key: result.stagedImageKey!,
+            s3Url: result.stagedImageUrl!,
+            aiMetadata: result.aiMetadata,
+            qualityScore: result.fidelity?.score,
+            qualityFlagged,
+            isApproved: autoApprove,
+            reviewStatus: autoApprove ? 'approved' : 'pending',
+          },
+        }));
+      }
+
+      // Charge only for the candidates that were actually produced
+      const creditsUsed = getStagingCreditCost(successful.length, jobType);
+      await captureCredits(tx, {
+        stagingJobId: jobId,
+        credits: creditsUsed,
+        aiCostCents,
+      });
+
+      await enqueueWebhookEvent(tx, {
+        organizationId: job.organizationId,
+        type: 'staging_job.completed',
+        data: {
+          stagingJobId: jobId,
+          jobType,
+          projectId: job.roomImage.projectId,
+          roomImageId: job.roomImageId,
+          creditsUsed,
+          failedVariations: failedCount,
+          stagedImages: stagedImages.map(image => ({
+            id: image.id,
+            reviewStatus: image.reviewStatus,
+            qualityScore: image.qualityScore === null ? null : Number(image.qualityScore),
+            qualityFlagged: image.qualityFlagged,
+          })),
+        },
+      });
+    });
+
+  } catch (error) {
+    console.error(`Staging job ${jobId} failed:`, error);
+    await failStagingJob(jobId, workerId, {
+      category: classifyStagingError(error),
+      detail: error instanceof Error ? error.message : String(error),
+      aiAttempts,
+    });
+  } finally {
+    clearInterval(leaseTimer);
+  }
+}
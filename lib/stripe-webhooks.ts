@@ -0,0 +1,562 @@
+import { Prisma } from '@prisma/client';
+import type Stripe from 'stripe';
+import { db } from '@/lib/db';
+import { clawbackCredits, grantCredits, restoreCredits } from '@/lib/credits';
+import { DEFAULT_PLAN_TYPE, PAID_STATUSES, getSubscriptionPlan } from '@/lib/pricing';
+import { stripe } from '@/lib/stripe';
+import { applySubscriptionInvoice } from '@/lib/subscriptions';
+
+export type StripeEventOutcome = 'processed' | 'duplicate';
+
+type PaymentTransaction = { amountCents: number; roomsPurchased: number };
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// Store the event and apply it once. Retried deliveries of an event that was
+// already processed are acknowledged without touching any data; `force`
+// re-applies it anyway, which is safe because every handler is idempotent.
+export async function handleStripeEvent(
+  event: Stripe.Event,
+  options: { force?: boolean } = {}
+): Promise<StripeEventOutcome> {
+  const stored = await db.stripeEvent.upsert({
+    where: { id: event.id },
+    create: {
+      id: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+    },
+    update: {},
+  });
+
+  if (stored.status === 'processed' && !options.force) {
+    return 'duplicate';
+  }
+
+  try {
+    await dispatchStripeEvent(event);
+  } catch (error) {
+    await db.stripeEvent.update({
+      where: { id: event.id },
+      data: {
+        status: 'failed',
+        attempts: { increment: 1 },
+        lastError: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+
+  await db.stripeEvent.update({
+    where: { id: event.id },
+    data: {
+      status: 'processed',
+      attempts: { increment: 1 },
+      lastError: null,
+      processedAt: new Date(),
+    },
+  });
+
+  return 'processed';
+}
+
+// Re-drive a stored event by id, e.g. after fixing a handler bug
+export async function replayStripeEvent(eventId: string): Promise<StripeEventOutcome> {
+  const stored = await db.stripeEvent.findUnique({ where: { id: eventId } });
+  if (!stored) {
+    throw new Error(`Stripe event ${eventId} has not been received`);
+  }
+
+  return handleStripeEvent(stored.payload as unknown as Stripe.Event, { force: true });
+}
+
+function getStripeId(value: string | { id: string } | null): string | null {
+  return typeof value === 'string' ? value : value?.id ?? null;
+}
+
+// Invoices from newer API versions link their subscription through `parent`;
+// older payloads carry it at the top level
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const legacy = invoice as Stripe.Invoice & { subscription?: string | { id: string } | null };
+  return getStripeId(invoice.parent?.subscription_details?.subscription ?? legacy.subscription ?? null);
+}
+
+// Newer API versions list an invoice's payments; older payloads name the
+// payment intent directly
+function getInvoicePaymentIntentId(invoice: Stripe.Invoice): string | null {
+  const legacy = invoice as Stripe.Invoice & { payment_intent?: string | { id: string } | null };
+  const payment = invoice.payments?.data.find(item => item.payment.payment_intent)?.payment;
+  return getStripeId(payment?.payment_intent ?? legacy.payment_intent ?? null);
+}
+
+// Only older API versions link a charge to its invoice
+function getChargeInvoiceId(charge: Stripe.Charge): string | null {
+  const legacy = charge as Stripe.Charge & { invoice?: string | { id: string } | null };
+  return getStripeId(legacy.invoice ?? null);
+}
+
+// The payment a charge was made for. Subscription invoices recorded before
+// their payment intent was stored are found through the invoice instead.
+async function findChargedTransaction(
+  tx: Prisma.TransactionClient,
+  paymentIntentId: string,
+  invoiceId: string | null
+) {
+  const payment = await tx.transaction.findUnique({
+    where: { stripePaymentIntentId: paymentIntentId },
+  });
+  if (payment || !invoiceId) return payment;
+
+  return tx.transaction.findUnique({
+    where: { stripeInvoiceId: invoiceId },
+  });
+}
+
+// Credits bought with the given share of a payment
+function creditsForAmount(payment: PaymentTransaction, cents: number): number {
+  if (payment.amountCents <= 0) return 0;
+  return Math.round((payment.roomsPurchased * cents) / payment.amountCents);
+}
+
+async function dispatchStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await handlePaymentSucceeded(event.data.object);
+      break;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentFailed(event.data.object);
+      break;
+
+    case 'invoice.paid':
+      await handleInvoicePaid(event.data.object);
+      break;
+
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      await handleSubscriptionChanged(event.data.object);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object);
+      break;
+
+    case 'charge.dispute.created':
+      await handleDisputeCreated(event.data.object);
+      break;
+
+    case 'charge.dispute.closed':
+      await handleDisputeClosed(event.data.object);
+      break;
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+async function handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  const { organizationId, userId, packageId, credits } = paymentIntent.metadata;
+
+  if (!organizationId || !userId || !credits) {
+    console.error('Missing required metadata in payment intent:', paymentIntent.metadata);
+    return;
+  }
+
+  const creditsToAdd = parseInt(credits, 10);
+  if (isNaN(creditsToAdd) || creditsToAdd <= 0) {
+    console.error('Invalid credits amount:', credits);
+    return;
+  }
+
+  const transactionData = {
+    amountCents: paymentIntent.amount,
+    currency: paymentIntent.currency.toUpperCase(),
+    status: 'succeeded',
+    roomsPurchased: creditsToAdd, // This field name is legacy, but represents credits
+    description: `${creditsToAdd} credits purchase via ${packageId}`,
+  };
+
+  try {
+    await db.$transaction(async (tx) => {
+      // A payment intent grants credits exactly once. An earlier failed
+      // attempt on the same intent is upgraded in place; any other existing
+      // row means this payment has already been applied.
+      const upgraded = await tx.transaction.updateMany({
+        where: { stripePaymentIntentId: paymentIntent.id, status: { in: ['pending', 'failed'] } },
+        data: transactionData,
+      });
+
+      if (upgraded.count === 0) {
+        const existing = await tx.transaction.findUnique({
+          where: { stripePaymentIntentId: paymentIntent.id },
+          select: { id: true },
+        });
+        if (existing) {
+          console.log(`Payment ${paymentIntent.id} already applied, skipping`);
+          return;
+        }
+
+        // Unique on stripePaymentIntentId: a concurrent delivery racing us
+        // here fails the whole transaction instead of granting twice
+        await tx.transaction.create({
+          data: {
+            organizationId,
+            stripePaymentIntentId: paymentIntent.id,
+            ...transactionData,
+          },
+        });
+      }
+
+      // Add credits to organization and log the purchase in the ledger
+      await grantCredits(tx, {
+        organizationId,
+        userId,
+        credits: creditsToAdd,
+        resourceId: paymentIntent.id,
+      });
+
+      console.log(`Successfully added ${creditsToAdd} credits to organization ${organizationId}`);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      console.log(`Payment ${paymentIntent.id} applied by a concurrent delivery, skipping`);
+      return;
+    }
+    console.error('Failed to process successful payment:', error);
+    throw error;
+  }
+}
+
+async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const { organizationId } = paymentIntent.metadata;
+
+  if (!organizationId) {
+    console.error('Missing organizationId in failed payment intent metadata');
+    return;
+  }
+
+  try {
+    // Never downgrade a payment that has since succeeded
+    const updated = await db.transaction.updateMany({
+      where: { stripePaymentIntentId: paymentIntent.id, status: { in: ['pending', 'failed'] } },
+      data: { status: 'failed' },
+    });
+
+    if (updated.count === 0) {
+      const existing = await db.transaction.findUnique({
+        where: { stripePaymentIntentId: paymentIntent.id },
+        select: { id: true },
+      });
+      if (existing) return;
+
+      await db.transaction.create({
+        data: {
+          organizationId,
+          stripePaymentIntentId: paymentIntent.id,
+          amountCents: paymentIntent.amount,
+          currency: paymentIntent.currency.toUpperCase(),
+          status: 'failed',
+          roomsPurchased: 0,
+          description: `Failed payment attempt`,
+        },
+      });
+    }
+
+    console.log(`Recorded failed payment for organization ${organizationId}`);
+  } catch (error) {
+    if (isUniqueViolation(error)) return;
+    console.error('Failed to record failed payment:', error);
+    throw error;
+  }
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!subscriptionId || !invoice.id) {
+    console.log('Invoice is not for a subscription, skipping');
+    return;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const { organizationId, planId, previousPlanId } = subscription.metadata;
+  const plan = getSubscriptionPlan(planId);
+
+  if (!organizationId || !plan) {
+    console.error('Missing organization or plan in subscription metadata:', subscription.metadata);
+    return;
+  }
+
+  const invoiceId = invoice.id;
+  const periods = invoice.lines.data.map(line => line.period);
+  const periodStart = new Date(Math.min(...periods.map(period => period.start)) * 1000);
+  const periodEnd = new Date(Math.max(...periods.map(period => period.end)) * 1000);
+
+  try {
+    await db.$transaction(async (tx) => {
+      const existing = await tx.transaction.findUnique({
+        where: { stripeInvoiceId: invoiceId },
+        select: { id: true },
+      });
+      if (existing) {
+        console.log(`Invoice ${invoiceId} already applied, skipping`);
+        return;
+      }
+
+      const isPlanChange = invoice.billing_reason === 'subscription_update';
+      const credits = await applySubscriptionInvoice(tx, {
+        organizationId,
+        subscriptionId,
+        plan,
+        previousPlan: getSubscriptionPlan(previousPlanId),
+        isPlanChange,
+        periodStart,
+        periodEnd,
+        paidAt: new Date(invoice.created * 1000),
+        invoiceId,
+      });
+
+      await tx.transaction.create({
+        data: {
+          organizationId,
+          type: 'subscription',
+          stripeInvoiceId: invoiceId,
+          // Refunds and disputes arrive keyed by the payment intent
+          stripePaymentIntentId: getInvoicePaymentIntentId(invoice),
+          amountCents: invoice.amount_paid,
+          currency: invoice.currency.toUpperCase(),
+          status: 'succeeded',
+          roomsPurchased: credits,
+          description: isPlanChange
+            ? `Switched to the ${plan.name} plan`
+            : `${plan.name} plan, ${plan.monthlyCredits} monthly credits`,
+        },
+      });
+
+      console.log(`Applied ${plan.name} invoice ${invoiceId} to organization ${organizationId}`);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      console.log(`Invoice ${invoiceId} applied by a concurrent delivery, skipping`);
+      return;
+    }
+    console.error('Failed to apply subscription invoice:', error);
+    throw error;
+  }
+}
+
+// Keep the organization's subscription status in step with Stripe. Only the
+// subscription the organization currently holds is touched, so stale events
+// for a replaced subscription are ignored.
+async function handleSubscriptionChanged(subscription: Stripe.Subscription) {
+  const { organizationId } = subscription.metadata;
+  if (!organizationId) {
+    console.error('Missing organizationId in subscription metadata:', subscription.id);
+    return;
+  }
+
+  if (subscription.status === 'canceled') {
+    // Whatever remains of the allotment stays as ordinary credits
+    await db.organization.updateMany({
+      where: { id: organizationId, stripeSubscriptionId: subscription.id },
+      data: {
+        planType: DEFAULT_PLAN_TYPE,
+        subscriptionStatus: 'canceled',
+        stripeSubscriptionId: null,
+        subscriptionCredits: 0,
+        currentPeriodStart: null,
+        currentPeriodEnd: null,
+      },
+    });
+    console.log(`Subscription ${subscription.id} ended for organization ${organizationId}`);
+    return;
+  }
+
+  await db.organization.updateMany({
+    where: { id: organizationId, stripeSubscriptionId: subscription.id },
+    data: { subscriptionStatus: subscription.status },
+  });
+}
+
+// charge.refunded carries the cumulative refunded amount, so each delivery
+// claws back only the credits for what was refunded since the last one
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = getStripeId(charge.payment_intent);
+  if (!paymentIntentId) {
+    console.error('Refunded charge has no payment intent:', charge.id);
+    return;
+  }
+
+  await db.$transaction(async (tx) => {
+    const payment = await findChargedTransaction(tx, paymentIntentId, getChargeInvoiceId(charge));
+    if (!payment) {
+      // Not a payment this app recorded; retrying would not change that
+      console.error(`No transaction found for refunded payment ${paymentIntentId}, skipping`);
+      return;
+    }
+    if (!PAID_STATUSES.includes(payment.status)) {
+      console.error(`Refund for payment ${paymentIntentId} in status ${payment.status}, skipping`);
+      return;
+    }
+
+    const refundedCents = Math.min(charge.amount_refunded, payment.amountCents);
+    const newlyRefundedCents = refundedCents - payment.amountRefundedCents;
+    if (newlyRefundedCents <= 0) {
+      console.log(`Refund on ${paymentIntentId} already applied, skipping`);
+      return;
+    }
+
+    const updated = await tx.transaction.updateMany({
+      where: { id: payment.id, amountRefundedCents: payment.amountRefundedCents },
+      data: {
+        amountRefundedCents: refundedCents,
+        // A disputed payment keeps its dispute status
+        ...((payment.status === 'succeeded' || payment.status === 'partially_refunded') && {
+          status: refundedCents >= payment.amountCents ? 'refunded' : 'partially_refunded',
+        }),
+      },
+    });
+    if (updated.count === 0) return;
+
+    const credits = creditsForAmount(payment, refundedCents) - creditsForAmount(payment, payment.amountRefundedCents);
+    const { owed } = await clawbackCredits(tx, {
+      organizationId: payment.organizationId,
+      credits,
+      resourceId: charge.id,
+      reason: `Refund on ${paymentIntentId} exceeded the remaining balance`,
+    });
+
+    await tx.transaction.create({
+      data: {
+        organizationId: payment.organizationId,
+        type: 'refund',
+        parentTransactionId: payment.id,
+        amountCents: newlyRefundedCents,
+        currency: payment.currency,
+        status: 'refunded',
+        roomsPurchased: -credits,
+        description: `Refund of ${credits} credits${owed > 0 ? ` (${owed} already spent)` : ''}`,
+      },
+    });
+
+    console.log(`Refunded ${newlyRefundedCents} cents and clawed back ${credits} credits from organization ${payment.organizationId}`);
+  });
+}
+
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const paymentIntentId = getStripeId(dispute.payment_intent);
+  if (!paymentIntentId) {
+    console.error('Dispute has no payment intent:', dispute.id);
+    return;
+  }
+
+  // Disputes do not carry the invoice, so it is read from the charge
+  const charge = typeof dispute.charge === 'string'
+    ? await stripe.charges.retrieve(dispute.charge)
+    : dispute.charge;
+  const invoiceId = getChargeInvoiceId(charge);
+
+  try {
+    await db.$transaction(async (tx) => {
+      const existing = await tx.transaction.findUnique({
+        where: { stripeDisputeId: dispute.id },
+        select: { id: true },
+      });
+      if (existing) {
+        console.log(`Dispute ${dispute.id} already recorded, skipping`);
+        return;
+      }
+
+      const payment = await findChargedTransaction(tx, paymentIntentId, invoiceId);
+      if (!payment) {
+        console.error(`No transaction found for disputed payment ${paymentIntentId}, skipping`);
+        return;
+      }
+
+      // The funds are withdrawn as soon as a dispute opens, so the credits go too
+      const disputedCents = Math.min(dispute.amount, payment.amountCents - payment.amountRefundedCents);
+      const credits = creditsForAmount(payment, disputedCents);
+      const { owed } = await clawbackCredits(tx, {
+        organizationId: payment.organizationId,
+        credits,
+        resourceId: dispute.id,
+        reason: `Dispute ${dispute.id} on ${paymentIntentId} exceeded the remaining balance`,
+      });
+
+      await tx.transaction.create({
+        data: {
+          organizationId: payment.organizationId,
+          type: 'dispute',
+          parentTransactionId: payment.id,
+          stripeDisputeId: dispute.id,
+          amountCents: disputedCents,
+          currency: payment.currency,
+          status: 'disputed',
+          roomsPurchased: -credits,
+          description: `Dispute (${dispute.reason}), ${credits} credits held${owed > 0 ? ` (${owed} already spent)` : ''}`,
+        },
+      });
+
+      await tx.transaction.update({
+        where: { id: payment.id },
+        data: { status: 'disputed' },
+      });
+
+      console.log(`Recorded dispute ${dispute.id} and clawed back ${credits} credits from organization ${payment.organizationId}`);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      console.log(`Dispute ${dispute.id} recorded by a concurrent delivery, skipping`);
+      return;
+    }
+    console.error('Failed to record dispute:', error);
+    throw error;
+  }
+}
+
+async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  const won = dispute.status === 'won' || dispute.status === 'warning_closed';
+
+  await db.$transaction(async (tx) => {
+    const disputeTransaction = await tx.transaction.findUnique({
+      where: { stripeDisputeId: dispute.id },
+      include: { parent: true },
+    });
+    if (!disputeTransaction) {
+      console.error(`No transaction found for closed dispute ${dispute.id}, skipping`);
+      return;
+    }
+
+    const closed = await tx.transaction.updateMany({
+      where: { id: disputeTransaction.id, status: 'disputed' },
+      data: { status: won ? 'won' : 'lost' },
+    });
+    if (closed.count === 0) {
+      console.log(`Dispute ${dispute.id} already closed, skipping`);
+      return;
+    }
+
+    const payment = disputeTransaction.parent;
+    if (won) {
+      await restoreCredits(tx, {
+        organizationId: disputeTransaction.organizationId,
+        credits: -disputeTransaction.roomsPurchased,
+        resourceId: dispute.id,
+      });
+    }
+
+    if (payment) {
+      const settledStatus = payment.amountRefundedCents === 0
+        ? 'succeeded'
+        : payment.amountRefundedCents >= payment.amountCents ? 'refunded' : 'partially_refunded';
+
+      await tx.transaction.update({
+        where: { id: payment.id },
+        data: { status: won ? settledStatus : 'charged_back' },
+      });
+    }
+
+    console.log(`Dispute ${dispute.id} closed as ${dispute.status}`);
+  });
+}
@@ -0,0 +1,243 @@
+import type { StylePreset } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getSignedAssetUrl } from '@/lib/storage';
+
+export const FURNITURE_DENSITIES = ['minimal', 'moderate', 'full'] as const;
+export type FurnitureDensity = typeof FURNITURE_DENSITIES[number];
+
+export const STAGING_BUDGETS = ['economy', 'mid_range', 'luxury'] as const;
+export type StagingBudget = typeof STAGING_BUDGETS[number];
+
+export const DEFAULT_STYLE_PRESET_ID = 'modern';
+
+// What a job needs from its preset. It is copied onto the job when queued so
+// editing or deleting the preset later doesn't change queued jobs or retries.
+export interface StylePresetSnapshot {
+  id: string;
+  name: string;
+  promptFragment: string;
+  colorPalette: string[];
+  furnitureDensity: FurnitureDensity | null;
+  budget: StagingBudget | null;
+}
+
+export interface StylePresetInput {
+  name: string;
+  description?: string | null;
+  promptFragment: string;
+  colorPalette?: string[];
+  furnitureDensity?: FurnitureDensity | null;
+  budget?: StagingBudget | null;
+  thumbnailImageId?: string | null; // a staged image of the organization to use as preview
+}
+
+export class StylePresetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'StylePresetError';
+  }
+}
+
+// Built-in styles available to every organization. Their ids double as the
+// style names the API has always accepted, so "style": "modern" keeps working.
+const SYSTEM_STYLE_PRESETS: Array<StylePresetSnapshot & { description: string; isPremium: boolean }> = [
+  {
+    id: 'modern',
+    name: 'Modern',
+    description: 'Clean lines, neutral colors, contemporary furniture',
+    promptFragment: 'clean lines, neutral colors (whites, grays, blacks), contemporary furniture, minimal decor, and sleek lighting fixtures.',
+    colorPalette: ['white', 'gray', 'black'],
+    furnitureDensity: null,
+    budget: null,
+    isPremium: false,
+  },
+  {
+    id: 'traditional',
+    name: 'Traditional',
+    description: 'Classic furniture, warm colors, elegant patterns',
+    promptFragment: 'classic furniture pieces, warm colors (browns, creams, navy), elegant patterns, and traditional accessories.',
+    colorPalette: ['brown', 'cream', 'navy'],
+    furnitureDensity: null,
+    budget: null,
+    isPremium: false,
+  },
+  {
+    id: 'minimalist',
+    name: 'Minimalist',
+    description: 'Few furniture pieces, lots of white space',
+    promptFragment: 'very few furniture pieces, lots of white space, simple geometric forms, and maximum 3-4 carefully chosen items.',
+    colorPalette: ['white', 'light gray'],
+    furnitureDensity: 'minimal',
+    budget: null,
+    isPremium: false,
+  },
+  {
+    id: 'luxury',
+    name: 'Luxury',
+    description: 'High-end furniture, rich materials, premium accessories',
+    promptFragment: 'high-end furniture, rich materials (marble, hardwood, leather), sophisticated color palette, and premium accessories.',
+    colorPalette: [],
+    furnitureDensity: null,
+    budget: 'luxury',
+    isPremium: true,
+  },
+  {
+    id: 'contemporary',
+    name: 'Contemporary',
+    description: 'Modern and traditional blend, current trends',
+    promptFragment: 'blend modern and traditional elements with current design trends, mixed textures, and statement pieces.',
+    colorPalette: [],
+    furnitureDensity: null,
+    budget: null,
+    isPremium: false,
+  },
+  {
+    id: 'rustic',
+    name: 'Rustic',
+    description: 'Natural wood, warm earth tones, farmhouse style',
+    promptFragment: 'natural wood elements, warm earth tones, cozy textures, and farmhouse-style accessories.',
+    colorPalette: ['warm brown', 'beige', 'olive green'],
+    furnitureDensity: null,
+    budget: null,
+    isPremium: false,
+  },
+];
+
+// Create or refresh the built-in presets; run with npm run styles:seed.
+// Until then they are served from SYSTEM_STYLE_PRESETS without thumbnails.
+export async function seedSystemStylePresets(): Promise<number> {
+  for (const preset of SYSTEM_STYLE_PRESETS) {
+    const data = { ...preset, organizationId: null };
+    await db.stylePreset.upsert({
+      where: { id: preset.id },
+      create: data,
+      update: data,
+    });
+  }
+  return SYSTEM_STYLE_PRESETS.length;
+}
+
+// A built-in preset shaped like its row, so a database that has not been
+// seeded yet still offers the built-in styles
+function toSystemStylePresetRow(preset: typeof SYSTEM_STYLE_PRESETS[number]): StylePreset {
+  return {
+    ...preset,
+    organizationId: null,
+    thumbnailKey: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+// System presets first, then the organization's own in creation order
+export async function listStylePresets(organizationId: string): Promise<StylePreset[]> {
+  const presets = await db.stylePreset.findMany({
+    where: { OR: [{ organizationId: null }, { organizationId }] },
+    orderBy: [{ organizationId: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+  });
+
+  const seeded = new Set(presets.map(preset => preset.id));
+  const unseeded = SYSTEM_STYLE_PRESETS
+    .filter(preset => !seeded.has(preset.id))
+    .map(toSystemStylePresetRow);
+  return [...unseeded, ...presets];
+}
+
+// A system preset or one of the organization's own
+export async function findStylePreset(organizationId: string, id: string): Promise<StylePreset | null> {
+  const preset = await db.stylePreset.findFirst({
+    where: { id, OR: [{ organizationId: null }, { organizationId }] },
+  });
+  if (preset) return preset;
+
+  const systemPreset = SYSTEM_STYLE_PRESETS.find(candidate => candidate.id === id);
+  return systemPreset ? toSystemStylePresetRow(systemPreset) : null;
+}
+
+export function toStylePresetSnapshot(preset: StylePreset): StylePresetSnapshot {
+  return {
+    id: preset.id,
+    name: preset.name,
+    promptFragment: preset.promptFragment,
+    colorPalette: preset.colorPalette,
+    furnitureDensity: (FURNITURE_DENSITIES as readonly string[]).includes(preset.furnitureDensity ?? '')
+      ? preset.furnitureDensity as FurnitureDensity
+      : null,
+    budget: (STAGING_BUDGETS as readonly string[]).includes(preset.budget ?? '')
+      ? preset.budget as StagingBudget
+      : null,
+  };
+}
+
+export async function serializeStylePreset(preset: StylePreset) {
+  return {
+    id: preset.id,
+    name: preset.name,
+    description: preset.description,
+    promptFragment: preset.promptFragment,
+    colorPalette: preset.colorPalette,
+    furnitureDensity: preset.furnitureDensity,
+    budget: preset.budget,
+    isPremium: preset.isPremium,
+    isSystem: preset.organizationId === null,
+    thumbnailUrl: preset.thumbnailKey ? await getSignedAssetUrl(preset.thumbnailKey) : null,
+  };
+}
+
+async function resolveThumbnailKey(organizationId: string, stagedImageId: string | null | undefined) {
+  if (stagedImageId === undefined) return undefined;
+  if (stagedImageId === null) return null;
+
+  const stagedImage = await db.stagedImage.findFirst({
+    where: { id: stagedImageId, organizationId },
+    select: { s3Key: true },
+  });
+  if (!stagedImage) {
+    throw new StylePresetError('Thumbnail image not found', 404);
+  }
+  return stagedImage.s3Key;
+}
+
+export async function createStylePreset(organizationId: string, input: StylePresetInput): Promise<StylePreset> {
+  return db.stylePreset.create({
+    data: {
+      organizationId,
+      name: input.name,
+      description: input.description ?? null,
+      promptFragment: input.promptFragment,
+      colorPalette: input.colorPalette ?? [],
+      furnitureDensity: input.furnitureDensity ?? null,
+      budget: input.budget ?? null,
+      thumbnailKey: await resolveThumbnailKey(organizationId, input.thumbnailImageId),
+    },
+  });
+}
+
+// Only organization presets can be changed; system presets are read-only
+export async function updateStylePreset(
+  organizationId: string,
+  id: string,
+  input: Partial<StylePresetInput>
+): Promise<StylePreset> {
+  const preset = await db.stylePreset.findFirst({ where: { id, organizationId } });
+  if (!preset) {
+    throw new StylePresetError('Style preset not found', 404);
+  }
+
+  const { thumbnailImageId, ...fields } = input;
+  return db.stylePreset.update({
+    where: { id },
+    data: {
+      ...fields,
+      thumbnailKey: await resolveThumbnailKey(organizationId, thumbnailImageId),
+    },
+  });
+}
+
+// Jobs keep their own copy of the preset, so deleting one is always safe
+export async function deleteStylePreset(organizationId: string, id: string): Promise<void> {
+  const deleted = await db.stylePreset.deleteMany({ where: { id, organizationId } });
+  if (deleted.count === 0) {
+    throw new StylePresetError('Style preset not found', 404);
+  }
+}
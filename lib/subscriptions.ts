@@ -0,0 +1,154 @@
+import type { Prisma } from '@prisma/client';
+import { stripe } from '@/lib/stripe';
+import { getOrCreateStripeCustomer } from '@/lib/stripe-customer';
+import { expireCredits, grantCredits } from '@/lib/credits';
+import { getPlanStripePriceId, type SubscriptionPlan } from '@/lib/pricing';
+
+type TransactionClient = Prisma.TransactionClient;
+
+function requirePriceId(plan: SubscriptionPlan): string {
+  const priceId = getPlanStripePriceId(plan);
+  if (!priceId) {
+    throw new Error(`No Stripe price configured for the ${plan.name} plan`);
+  }
+  return priceId;
+}
+
+// Start a Stripe Checkout session for an organization without a subscription.
+// The subscription metadata is what the webhooks use to find the organization.
+export async function createSubscriptionCheckout(params: {
+  organizationId: string;
+  email: string;
+  name?: string;
+  plan: SubscriptionPlan;
+  returnUrl: string;
+}): Promise<string> {
+  const customer = await getOrCreateStripeCustomer(params.organizationId, params.email, params.name);
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    customer: customer.id,
+    line_items: [{ price: requirePriceId(params.plan), quantity: 1 }],
+    subscription_data: {
+      metadata: { organizationId: params.organizationId, planId: params.plan.id },
+    },
+    success_url: `${params.returnUrl}?subscription=success`,
+    cancel_url: `${params.returnUrl}?subscription=canceled`,
+  });
+
+  if (!session.url) {
+    throw new Error('Stripe did not return a checkout URL');
+  }
+  return session.url;
+}
+
+// Move an existing subscription to another plan. Stripe prorates the price
+// difference and invoices it straight away; the invoice.paid webhook then
+// applies the new plan and any prorated credits.
+export async function changeSubscriptionPlan(subscriptionId: string, plan: SubscriptionPlan): Promise<void> {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const item = subscription.items.data[0];
+
+  await stripe.subscriptions.update(subscriptionId, {
+    items: [{ id: item.id, price: requirePriceId(plan) }],
+    proration_behavior: 'always_invoice',
+    cancel_at_period_end: false,
+    metadata: {
+      ...subscription.metadata,
+      planId: plan.id,
+      previousPlanId: subscription.metadata.planId ?? '',
+    },
+  });
+}
+
+// Cancel at the end of the paid period; customer.subscription.deleted moves
+// the organization back to the default plan when it actually ends
+export async function cancelSubscription(subscriptionId: string): Promise<void> {
+  await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
+}
+
+// Grant the credits for a paid subscription invoice and record the plan on
+// the organization. A new period expires the unused allotment beyond the
+// plan's rollover cap before granting the next one; a mid-period upgrade
+// grants the prorated difference between the two allotments.
+export async function applySubscriptionInvoice(
+  tx: TransactionClient,
+  params: {
+    organizationId: string;
+    subscriptionId: string;
+    plan: SubscriptionPlan;
+    previousPlan: SubscriptionPlan | null;
+    isPlanChange: boolean;
+    periodStart: Date;
+    periodEnd: Date;
+    paidAt: Date;
+    invoiceId: string;
+  }
+): Promise<number> {
+  const { organizationId, plan, invoiceId } = params;
+
+  await tx.$queryRaw`SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE`;
+  const organization = await tx.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: {
+      creditsRemaining: true,
+      subscriptionCredits: true,
+      currentPeriodStart: true,
+      currentPeriodEnd: true,
+    },
+  });
+
+  if (params.isPlanChange) {
+    // Downgrades keep what was already granted for this period
+    const allotmentIncrease = plan.monthlyCredits - (params.previousPlan?.monthlyCredits ?? 0);
+    let credits = 0;
+
+    if (allotmentIncrease > 0 && organization.currentPeriodStart && organization.currentPeriodEnd) {
+      const periodMs = organization.currentPeriodEnd.getTime() - organization.currentPeriodStart.getTime();
+      const remainingMs = organization.currentPeriodEnd.getTime() - params.paidAt.getTime();
+      const remainingShare = Math.min(1, Math.max(0, remainingMs / periodMs));
+      credits = Math.round(allotmentIncrease * remainingShare);
+    }
+
+    if (credits > 0) {
+      await grantCredits(tx, { organizationId, credits, resourceId: invoiceId, source: 'allotment' });
+    }
+
+    await tx.organization.update({
+      where: { id: organizationId },
+      data: {
+        planType: plan.id,
+        stripeSubscriptionId: params.subscriptionId,
+        subscriptionStatus: 'active',
+        subscriptionCredits: { increment: credits },
+      },
+    });
+    return credits;
+  }
+
+  // Allotment credits are assumed to be spent before purchased ones, so
+  // whatever is left of the allotment is bounded by the balance
+  const unusedAllotment = Math.max(0, Math.min(organization.subscriptionCredits, organization.creditsRemaining));
+  const rolledOver = Math.min(unusedAllotment, plan.maxRolloverCredits);
+  const expired = unusedAllotment - rolledOver;
+
+  if (expired > 0) {
+    await expireCredits(tx, { organizationId, credits: expired, resourceId: invoiceId });
+  }
+  if (plan.monthlyCredits > 0) {
+    await grantCredits(tx, { organizationId, credits: plan.monthlyCredits, resourceId: invoiceId, source: 'allotment' });
+  }
+
+  await tx.organization.update({
+    where: { id: organizationId },
+    data: {
+      planType: plan.id,
+      stripeSubscriptionId: params.subscriptionId,
+      subscriptionStatus: 'active',
+      subscriptionCredits: rolledOver + plan.monthlyCredits,
+      currentPeriodStart: params.periodStart,
+      currentPeriodEnd: params.periodEnd,
+    },
+  });
+  return plan.monthlyCredits;
+}
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Only allow same-origin paths as post-auth redirects
+export function getSafeRedirectPath(path: string | undefined, fallback = "/dashboard"): string {
+  if (!path || !path.startsWith("/") || path.startsWith("//") || path.startsWith("/\\")) {
+    return fallback
+  }
+  return path
+}
@@ -0,0 +1,186 @@
+import sharp from 'sharp';
+import type { Organization } from '@prisma/client';
+import { getSignedAssetUrl } from '@/lib/storage';
+
+export const WATERMARK_POSITIONS = ['top_left', 'top_right', 'bottom_left', 'bottom_right', 'center'] as const;
+export type WatermarkPosition = typeof WATERMARK_POSITIONS[number];
+
+// inherit follows the organization setting; off is for markets that forbid
+// watermarks, on labels a project even when the organization default is off
+export const PROJECT_WATERMARK_MODES = ['inherit', 'on', 'off'] as const;
+export type ProjectWatermarkMode = typeof PROJECT_WATERMARK_MODES[number];
+
+export const DEFAULT_DISCLOSURE_TEXT = 'Virtually Staged';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  text: string;
+  logoKey: string | null;
+  position: WatermarkPosition;
+  opacity: number; // 0.1-1
+  badge: boolean; // draw the label on a solid badge rather than over the photo
+}
+
+type WatermarkColumns = Pick<
+  Organization,
+  'watermarkEnabled' | 'watermarkText' | 'watermarkLogoKey' | 'watermarkPosition' | 'watermarkOpacity' | 'watermarkBadge'
+>;
+
+export function getWatermarkSettings(organization: WatermarkColumns): WatermarkSettings {
+  return {
+    enabled: organization.watermarkEnabled,
+    text: organization.watermarkText,
+    logoKey: organization.watermarkLogoKey,
+    position: (WATERMARK_POSITIONS as readonly string[]).includes(organization.watermarkPosition)
+      ? organization.watermarkPosition as WatermarkPosition
+      : 'bottom_right',
+    opacity: organization.watermarkOpacity,
+    badge: organization.watermarkBadge,
+  };
+}
+
+export async function serializeWatermarkSettings(settings: WatermarkSettings) {
+  const { logoKey, ...rest } = settings;
+  return {
+    ...rest,
+    logoUrl: logoKey ? await getSignedAssetUrl(logoKey) : null,
+  };
+}
+
+export function isWatermarkApplied(settings: WatermarkSettings, projectMode: string | null | undefined): boolean {
+  if (projectMode === 'off') return false;
+  if (projectMode === 'on') return true;
+  return settings.enabled;
+}
+
+function escapeMarkup(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Multiply an RGBA image's alpha so the whole label fades evenly
+async function fade(overlay: Buffer, opacity: number): Promise<Buffer> {
+  const { data, info } = await sharp(overlay).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = Math.round(data[i] * opacity);
+  }
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+}
+
+// The disclosure label: optional logo followed by the text, sized relative
+// to the photo so it reads the same on thumbnails and full-size exports
+async function buildLabel(settings: WatermarkSettings, photoWidth: number, logo: Buffer | null) {
+  const fontSize = Math.max(12, Math.round(photoWidth * 0.022));
+  const padding = Math.round(fontSize * 0.6);
+  // Narrow photos still get room for a few words; the label is scaled down
+  // to fit them afterwards
+  const maxWidth = Math.max(Math.round(photoWidth * 0.9) - padding * 2, fontSize * 4);
+
+  const logoHeight = Math.round(fontSize * 1.8);
+  const logoImage = logo
+    ? await sharp(logo).resize({ height: logoHeight, width: Math.round(maxWidth / 3), fit: 'inside' }).png().toBuffer({ resolveWithObject: true })
+    : null;
+  const logoWidth = logoImage?.info.width ?? 0;
+  const gap = logoImage ? padding : 0;
+
+  // Long disclosures wrap in the space left beside the logo
+  const text = settings.text.trim()
+    ? await sharp({
+        text: {
+          text: `<span foreground="white">${escapeMarkup(settings.text.trim())}</span>`,
+          font: `sans bold ${fontSize}`,
+          dpi: 72, // so the font size is in pixels
+          rgba: true,
+          width: maxWidth - logoWidth - gap,
+          wrap: 'word',
+        },
+      }).png().toBuffer({ resolveWithObject: true })
+    : null;
+
+  const textWidth = text?.info.width ?? 0;
+  const textHeight = text?.info.height ?? 0;
+  const contentHeight = Math.max(textHeight, logoImage?.info.height ?? 0);
+  const width = padding * 2 + logoWidth + gap + textWidth;
+  const height = padding * 2 + contentHeight;
+
+  const layers: sharp.OverlayOptions[] = [];
+  if (settings.badge) {
+    const radius = Math.round(padding * 0.8);
+    layers.push({
+      input: Buffer.from(`<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg"><rect width="${width}" height="${height}" rx="${radius}" fill="#000000" fill-opacity="0.65" /></svg>`),
+      top: 0,
+      left: 0,
+    });
+  }
+  if (logoImage) {
+    layers.push({ input: logoImage.data, top: padding + Math.round((contentHeight - logoImage.info.height) / 2), left: padding });
+  }
+  if (text) {
+    const top = padding + Math.round((contentHeight - textHeight) / 2);
+    const left = padding + logoWidth + gap;
+    if (!settings.badge) {
+      // Without a badge a soft shadow keeps white text legible on bright walls
+      const shadow = await sharp(text.data).linear([0, 0, 0, 0.6], [0, 0, 0, 0]).blur(Math.max(1, fontSize / 10)).png().toBuffer();
+      layers.push({ input: shadow, top: top + Math.max(1, Math.round(fontSize / 12)), left: left + Math.max(1, Math.round(fontSize / 12)) });
+    }
+    layers.push({ input: text.data, top, left });
+  }
+
+  const label = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite(layers)
+    .png()
+    .toBuffer();
+
+  return { buffer: await fade(label, settings.opacity), width, height };
+}
+
+// The label has a minimum font size, so on small images it can come out
+// bigger than the photo; shrink it to the space inside the margins
+async function fitLabel(
+  label: { buffer: Buffer; width: number; height: number },
+  maxWidth: number,
+  maxHeight: number
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  if (label.width <= maxWidth && label.height <= maxHeight) return label;
+
+  const { data, info } = await sharp(label.buffer)
+    .resize({ width: maxWidth, height: maxHeight, fit: 'inside' })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height };
+}
+
+// Stamp the disclosure label onto a delivered copy of a staged image. The
+// stored master is never modified, so changing the settings or the project
+// override applies to every later download.
+export async function applyWatermark(
+  image: Buffer,
+  settings: WatermarkSettings,
+  logo: Buffer | null = null
+): Promise<{ buffer: Buffer; mimeType: string }> {
+  const { format } = await sharp(image).metadata();
+  const upright = await sharp(image).rotate().toBuffer();
+  const { width, height } = await sharp(upright).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to determine image dimensions');
+  }
+
+  const margin = Math.round(Math.min(width, height) * 0.03);
+  const label = await fitLabel(await buildLabel(settings, width, logo), width - margin * 2, height - margin * 2);
+  const left = settings.position.endsWith('left')
+    ? margin
+    : settings.position.endsWith('right')
+      ? width - label.width - margin
+      : Math.round((width - label.width) / 2);
+  const top = settings.position.startsWith('top')
+    ? margin
+    : settings.position.startsWith('bottom')
+      ? height - label.height - margin
+      : Math.round((height - label.height) / 2);
+
+  const pipeline = sharp(upright)
+    .composite([{ input: label.buffer, top: Math.max(0, top), left: Math.max(0, left) }]);
+
+  return format === 'png'
+    ? { buffer: await pipeline.png().toBuffer(), mimeType: 'image/png' }
+    : { buffer: await pipeline.jpeg({ quality: 92, mozjpeg: true }).toBuffer(), mimeType: 'image/jpeg' };
+}
@@ -0,0 +1,141 @@
+import https from 'https';
+import net from 'net';
+import { lookup } from 'dns/promises';
+
+// Webhook URLs are chosen by organization admins, so without these checks
+// the worker could be pointed at internal services and the delivery log
+// would report what answered
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+export interface WebhookTarget {
+  url: URL;
+  address: string;
+  family: 4 | 6;
+}
+
+// Loopback, private, link-local (including cloud metadata), carrier-grade
+// NAT, documentation, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 rules.
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001::', 23],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Parse the URL and resolve its host. Every address the name resolves to
+// must be public, so a record that mixes in an internal address is refused;
+// the first one is used for the request.
+export async function resolveWebhookTarget(rawUrl: string): Promise<WebhookTarget> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new WebhookUrlError('Webhook URL is not valid');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new WebhookUrlError('Webhook URLs must use https');
+  }
+  if (url.username || url.password) {
+    throw new WebhookUrlError('Webhook URLs cannot contain credentials');
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [{ address: hostname, family: net.isIP(hostname) }]
+      : await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new WebhookUrlError(`Could not resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new WebhookUrlError('Webhook URLs must point to a public internet address');
+  }
+
+  const [{ address, family }] = addresses;
+  return { url, address, family: family === 6 ? 6 : 4 };
+}
+
+// POST to a resolved target, connecting to the checked address rather than
+// resolving the name again (which a short-TTL record could change in
+// between). TLS is still verified against the hostname. Redirects are not
+// followed.
+export function postToWebhookTarget(
+  target: WebhookTarget,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      target.url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        signal: AbortSignal.timeout(timeoutMs),
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [{ address: target.address, family: target.family }]);
+          } else {
+            callback(null, target.address, target.family);
+          }
+        },
+      },
+      (response) => {
+        // The body is not used; drain it so the socket is released
+        response.resume();
+        response.on('end', () => resolve(response.statusCode ?? 0));
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
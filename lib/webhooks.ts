@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { WebhookUrlError, postToWebhookTarget, resolveWebhookTarget } from '@/lib/webhook-targets';
+
+type TransactionClient = Prisma.TransactionClient;
+
+export const WEBHOOK_EVENTS = [
+  'staging_job.completed',
+  'staging_job.failed',
+  'credits.low',
+  'credits.purchased',
+  'project.created',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'Magic-Staging-Signature';
+
+// Delays before each retry; a delivery that still fails after the last one
+// is marked failed and can be replayed from the settings page
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+export const MAX_WEBHOOK_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// How far a claimed delivery's nextAttemptAt is pushed out, so another worker
+// doesn't send it again while the request is in flight
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+// Stripe-style signature over "<timestamp>.<body>" so receivers can reject
+// replayed or tampered requests
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Queue an event for every enabled endpoint subscribed to it. Call this inside
+// the transaction that makes the change, so the event exists exactly when the
+// change does.
+export async function enqueueWebhookEvent(
+  tx: TransactionClient,
+  event: { organizationId: string; type: WebhookEventType; data: Record<string, unknown> }
+): Promise<void> {
+  const endpoints = await tx.webhookEndpoint.findMany({
+    where: { organizationId: event.organizationId, enabled: true, events: { has: event.type } },
+    select: { id: true },
+  });
+  if (endpoints.length === 0) return;
+
+  const eventId = `evt_${crypto.randomUUID().replace(/-/g, '')}`;
+  const payload = {
+    id: eventId,
+    type: event.type,
+    createdAt: new Date().toISOString(),
+    organizationId: event.organizationId,
+    data: event.data,
+  } as Prisma.InputJsonObject;
+
+  await tx.webhookDelivery.createMany({
+    data: endpoints.map(endpoint => ({
+      organizationId: event.organizationId,
+      endpointId: endpoint.id,
+      eventId,
+      eventType: event.type,
+      payload,
+    })),
+  });
+}
+
+// Claim deliveries that are due. SKIP LOCKED keeps concurrent workers from
+// picking the same rows, and the pushed-out nextAttemptAt keeps them from
+// picking them up again until the attempt has been recorded.
+async function claimDueWebhookDeliveries(limit: number): Promise<string[]> {
+  const now = new Date();
+  const leaseExpiresAt = new Date(now.getTime() + DELIVERY_LEASE_MS);
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    UPDATE webhook_deliveries
+    SET "nextAttemptAt" = ${leaseExpiresAt}
+    WHERE id IN (
+      SELECT id FROM webhook_deliveries
+      WHERE status = 'pending' AND "nextAttemptAt" <= ${now}
+      ORDER BY "nextAttemptAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `;
+
+  return rows.map(row => row.id);
+}
+
+async function deliverWebhook(deliveryId: string): Promise<void> {
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: { select: { url: true, secret: true, enabled: true } } },
+  });
+  if (!delivery || delivery.status !== 'pending') return;
+
+  if (!delivery.endpoint.enabled) {
+    await db.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', lastError: 'Endpoint is disabled' },
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+  try {
+    // Checked again on every send: the name may now resolve somewhere else
+    const target = await resolveWebhookTarget(delivery.endpoint.url);
+    responseStatus = await postToWebhookTarget(
+      target,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MagicStaging-Webhooks/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.endpoint.secret, timestamp, body),
+      },
+      body,
+      DELIVERY_TIMEOUT_MS
+    );
+    if (responseStatus < 200 || responseStatus >= 300) {
+      lastError = `Endpoint responded with ${responseStatus}`;
+    }
+  } catch (error) {
+    // Connection errors name the address and port, so only the outcome is kept
+    lastError = error instanceof WebhookUrlError ? error.message : 'Request failed';
+  }
+
+  const now = new Date();
+  if (!lastError) {
+    await db.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'succeeded', attempts, lastAttemptAt: now, responseStatus, lastError: null, deliveredAt: now },
+    });
+    return;
+  }
+
+  const exhausted = attempts >= MAX_WEBHOOK_ATTEMPTS;
+  await db.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: exhausted ? 'failed' : 'pending',
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: exhausted ? now : new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]),
+      responseStatus,
+      lastError,
+    },
+  });
+}
+
+// Send everything that is due; called from the worker loop
+export async function processDueWebhookDeliveries(limit: number = 20): Promise<number> {
+  const deliveryIds = await claimDueWebhookDeliveries(limit);
+
+  for (const deliveryId of deliveryIds) {
+    try {
+      await deliverWebhook(deliveryId);
+    } catch (error) {
+      console.error(`Webhook delivery ${deliveryId} failed:`, error);
+    }
+  }
+
+  return deliveryIds.length;
+}
+
+// Send an earlier event again as a new delivery. The event id is kept so
+// receivers that already processed it can recognise the duplicate.
+export async function replayWebhookDelivery(organizationId: string, deliveryId: string) {
+  const delivery = await db.webhookDelivery.findFirst({
+    where: { id: deliveryId, organizationId },
+  });
+  if (!delivery) return null;
+
+  return db.webhookDelivery.create({
+    data: {
+      organizationId,
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload as Prisma.InputJsonValue,
+    },
+  });
+}
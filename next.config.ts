@@ -1,7 +1,27 @@
 import type { NextConfig } from "next";
 
+type RemotePattern = NonNullable<NonNullable<NextConfig["images"]>["remotePatterns"]>[number];
+
+// Presigned URLs from the S3 storage driver point at the bucket host, so
+// next/image needs to be allowed to fetch from it
+const remotePatterns: RemotePattern[] = [
+  { protocol: "https", hostname: "**.amazonaws.com" },
+];
+
+const s3Host = process.env.S3_PUBLIC_URL || process.env.S3_ENDPOINT;
+if (s3Host) {
+  const url = new URL(s3Host);
+  remotePatterns.push({
+    protocol: url.protocol.replace(":", "") as "http" | "https",
+    hostname: url.hostname,
+    port: url.port,
+  });
+}
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,22 @@
+import './load-env';
+import { db } from '@/lib/db';
+
+// StagedImage.reviewStatus arrived with a "pending" default, so images that
+// were approved before it existed need it set from isApproved. Safe to rerun:
+//   npm run review:backfill
+async function main() {
+  try {
+    const { count } = await db.stagedImage.updateMany({
+      where: { isApproved: true, reviewStatus: 'pending' },
+      data: { reviewStatus: 'approved' },
+    });
+    console.log(`✅ Marked ${count} previously approved staged images as approved`);
+  } catch (error) {
+    console.error('❌ Backfilling review status failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,5 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env / .env.local the same way `next dev` does. Imported first by
+// standalone scripts so lib modules see the variables at module load.
+loadEnvConfig(process.cwd());
@@ -0,0 +1,174 @@
+import './load-env';
+import path from 'path';
+import { readFile, readdir, rmdir, unlink } from 'fs/promises';
+import { db } from '@/lib/db';
+import { getStorage } from '@/lib/storage';
+
+// Move images written before private storage out of public/uploads, where
+// Next.js serves them to anyone, into the configured storage driver:
+//   npm run storage:migrate [-- --dry-run]
+//
+// Older RoomImage and StagedImage rows hold either an absolute path under
+// public/uploads or a key relative to it; both are rewritten to a relative
+// key. Files no row refers to are kept under legacy/ rather than deleted.
+
+const LEGACY_DIR = path.join(process.cwd(), 'public', 'uploads');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+const dryRun = process.argv.includes('--dry-run');
+
+interface LegacyRow {
+  id: string;
+  s3Key: string;
+}
+
+// The file a stored key pointed at before the move, or null when it points
+// outside public/uploads
+function toLegacyPath(s3Key: string): string | null {
+  const fullPath = path.isAbsolute(s3Key) ? path.normalize(s3Key) : path.join(LEGACY_DIR, s3Key);
+  return fullPath.startsWith(LEGACY_DIR + path.sep) ? fullPath : null;
+}
+
+function toObjectKey(fullPath: string): string {
+  return path.relative(LEGACY_DIR, fullPath).split(path.sep).join('/');
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(entryPath));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+// Remove directories left empty once their files have moved
+async function removeEmptyDirectories(dir: string): Promise<void> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      await removeEmptyDirectories(path.join(dir, entry.name));
+    }
+  }
+  if (dir !== LEGACY_DIR && (await readdir(dir)).length === 0) {
+    await rmdir(dir);
+  }
+}
+
+async function moveFile(fullPath: string, key: string): Promise<void> {
+  if (dryRun) return;
+  const body = await readFile(fullPath);
+  await getStorage().put(key, body, CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream');
+  await unlink(fullPath);
+}
+
+async function migrateRows(
+  label: string,
+  rows: LegacyRow[],
+  update: (id: string, s3Key: string, s3Url: string) => Promise<unknown>,
+  legacyFiles: Set<string>,
+  claimed: Set<string>
+): Promise<number> {
+  let migrated = 0;
+
+  for (const row of rows) {
+    const legacyPath = toLegacyPath(row.s3Key);
+    if (!legacyPath) {
+      console.warn(`⚠️  ${label} ${row.id}: ${row.s3Key} is outside public/uploads, skipped`);
+      continue;
+    }
+
+    const key = toObjectKey(legacyPath);
+    try {
+      // Several rows may share a file, e.g. a re-stage of the same original
+      if (legacyFiles.has(legacyPath) && !claimed.has(legacyPath)) {
+        await moveFile(legacyPath, key);
+        claimed.add(legacyPath);
+      }
+      if (!dryRun) {
+        await update(row.id, key, getStorage().getUrl(key));
+      }
+      migrated++;
+    } catch (error) {
+      console.error(`❌ ${label} ${row.id}: failed to migrate ${row.s3Key}:`, error);
+      process.exitCode = 1;
+    }
+  }
+
+  return migrated;
+}
+
+async function main() {
+  try {
+    const legacyFiles = await listFiles(LEGACY_DIR);
+
+    // Rows keyed relative to public/uploads, or by an absolute path
+    const where = {
+      OR: [
+        { s3Key: { in: legacyFiles.map(toObjectKey) } },
+        { s3Key: { startsWith: '/' } },
+      ],
+    };
+    const files = new Set(legacyFiles);
+    const claimed = new Set<string>();
+
+    const roomImages = await migrateRows(
+      'RoomImage',
+      await db.roomImage.findMany({ where, select: { id: true, s3Key: true } }),
+      (id, s3Key, s3Url) => db.roomImage.update({ where: { id }, data: { s3Key, s3Url } }),
+      files,
+      claimed
+    );
+    const stagedImages = await migrateRows(
+      'StagedImage',
+      await db.stagedImage.findMany({ where, select: { id: true, s3Key: true } }),
+      (id, s3Key, s3Url) => db.stagedImage.update({ where: { id }, data: { s3Key, s3Url } }),
+      files,
+      claimed
+    );
+
+    // Whatever no row refers to stays private under legacy/
+    let orphans = 0;
+    for (const file of legacyFiles) {
+      if (claimed.has(file)) continue;
+      try {
+        await moveFile(file, `legacy/${toObjectKey(file)}`);
+        orphans++;
+      } catch (error) {
+        console.error(`❌ Failed to move ${file}:`, error);
+        process.exitCode = 1;
+      }
+    }
+
+    if (!dryRun && legacyFiles.length > 0) {
+      await removeEmptyDirectories(LEGACY_DIR);
+    }
+
+    const prefix = dryRun ? '🔎 Would migrate' : '✅ Migrated';
+    console.log(`${prefix} ${roomImages} room images, ${stagedImages} staged images and ${orphans} unreferenced files`);
+  } catch (error) {
+    console.error('❌ Migrating legacy uploads failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+main();
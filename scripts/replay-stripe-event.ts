@@ -0,0 +1,26 @@
+import './load-env';
+import { db } from '@/lib/db';
+import { replayStripeEvent } from '@/lib/stripe-webhooks';
+
+// Re-apply a stored Stripe webhook event:
+//   npm run stripe:replay -- evt_123
+async function main() {
+  const eventId = process.argv[2];
+  if (!eventId) {
+    console.error('Usage: npm run stripe:replay -- <eventId>');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const outcome = await replayStripeEvent(eventId);
+    console.log(`✅ Event ${eventId} ${outcome}`);
+  } catch (error) {
+    console.error(`❌ Replay of ${eventId} failed:`, error);
+    process.exitCode = 1;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+main();
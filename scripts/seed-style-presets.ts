@@ -0,0 +1,19 @@
+import './load-env';
+import { db } from '@/lib/db';
+import { seedSystemStylePresets } from '@/lib/style-presets';
+
+// Create or refresh the built-in style presets:
+//   npm run styles:seed
+async function main() {
+  try {
+    const count = await seedSystemStylePresets();
+    console.log(`✅ Seeded ${count} system style presets`);
+  } catch (error) {
+    console.error('❌ Seeding style presets failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+main();
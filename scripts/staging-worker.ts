@@ -0,0 +1,52 @@
+import './load-env';
+import os from 'os';
+import { db } from '@/lib/db';
+import { claimNextStagingJob, reapExhaustedStagingJobs, runStagingJob } from '@/lib/staging-queue';
+import { processDueWebhookDeliveries } from '@/lib/webhooks';
+
+const POLL_INTERVAL_MS = parseInt(process.env.STAGING_WORKER_POLL_MS || '2000', 10);
+const workerId = `${os.hostname()}:${process.pid}`;
+
+let shuttingDown = false;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function runWorker() {
+  console.log(`🛠️  Staging worker ${workerId} started (poll every ${POLL_INTERVAL_MS}ms)`);
+
+  while (!shuttingDown) {
+    try {
+      await reapExhaustedStagingJobs();
+      await processDueWebhookDeliveries();
+
+      const jobId = await claimNextStagingJob(workerId);
+      if (!jobId) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      console.log(`▶️  Processing staging job ${jobId}`);
+      await runStagingJob(jobId, workerId);
+      console.log(`✅ Finished staging job ${jobId}`);
+    } catch (error) {
+      console.error('❌ Worker loop error:', error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  await db.$disconnect();
+  console.log(`👋 Staging worker ${workerId} stopped`);
+}
+
+// Finish the job in hand before exiting; anything left in processing is
+// reclaimed by another worker once its lease expires
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, shutting down after current job...`);
+    shuttingDown = true;
+  });
+}
+
+runWorker();